@@ -0,0 +1,296 @@
+import * as vscode from 'vscode';
+import * as crypto from 'crypto';
+import { FileExplorerProvider, FileItem } from './FileExplorer';
+
+export type ConnectionStatus = 'connecting' | 'connected' | 'reconnecting' | 'disconnected';
+
+export type ExplorerNode = ConnectionItem | FileItem;
+
+/**
+ * Holds one FileExplorerProvider per live connection and presents them as a single tree
+ * (one root node per connection) and a single `jupyter-remote` file system. Calls are
+ * routed by the connection id carried in tree items and in the URI authority.
+ */
+export class ConnectionManager implements vscode.TreeDataProvider<ExplorerNode>, vscode.FileSystemProvider, vscode.TreeDragAndDropController<ExplorerNode> {
+    private _onDidChangeTreeData: vscode.EventEmitter<ExplorerNode | undefined | null> = new vscode.EventEmitter<ExplorerNode | undefined | null>();
+    readonly onDidChangeTreeData: vscode.Event<ExplorerNode | undefined | null> = this._onDidChangeTreeData.event;
+
+    private _emitter = new vscode.EventEmitter<vscode.FileChangeEvent[]>();
+    readonly onDidChangeFile: vscode.Event<vscode.FileChangeEvent[]> = this._emitter.event;
+
+    // Fired with the connection name when its server stops responding
+    private _onConnectionLost: vscode.EventEmitter<string> = new vscode.EventEmitter<string>();
+    readonly onConnectionLost: vscode.Event<string> = this._onConnectionLost.event;
+
+    // Fired with the connection name when its server rejects the token and it was not renewed
+    private _onAuthenticationFailed: vscode.EventEmitter<string> = new vscode.EventEmitter<string>();
+    readonly onAuthenticationFailed: vscode.Event<string> = this._onAuthenticationFailed.event;
+
+    private _onDidInvalidatePath: vscode.EventEmitter<string> = new vscode.EventEmitter<string>();
+    readonly onDidInvalidatePath: vscode.Event<string> = this._onDidInvalidatePath.event;
+
+    private _onDidChangeActive: vscode.EventEmitter<void> = new vscode.EventEmitter<void>();
+    readonly onDidChangeActive: vscode.Event<void> = this._onDidChangeActive.event;
+
+    readonly dropMimeTypes = [
+        'text/uri-list',
+        'application/vnd.code.tree.jupyterFileExplorer'
+    ];
+    readonly dragMimeTypes = ['application/vnd.code.tree.jupyterFileExplorer'];
+
+    private connections = new Map<string, { name: string; provider: FileExplorerProvider; item: ConnectionItem; listeners: vscode.Disposable[] }>();
+    private activeId: string | undefined;
+
+    // Stands in for the active connection while nothing is connected, so callers get "not connected"
+    private disconnectedProvider = new FileExplorerProvider();
+
+    /**
+     * Connection ids are used as URI authorities, so they are limited to safe characters.
+     * Names that had to be changed for that get a hash of the exact name, so "Lab A" and
+     * "lab-a" (or two non-Latin names) still get different ids.
+     */
+    static idFor(connectionName: string): string {
+        const slug = connectionName.toLowerCase().replace(/[^a-z0-9-]+/g, '-').replace(/^-+|-+$/g, '');
+        if (slug && slug === connectionName) {
+            return slug;
+        }
+        const hash = crypto.createHash('sha1').update(connectionName).digest('hex').slice(0, 8);
+        return `${slug || 'server'}-${hash}`;
+    }
+
+    getOrCreate(connectionName: string): FileExplorerProvider {
+        const id = ConnectionManager.idFor(connectionName);
+        const existing = this.connections.get(id);
+        if (existing) {
+            return existing.provider;
+        }
+
+        const provider = new FileExplorerProvider(id);
+        const item = new ConnectionItem(connectionName, id, 'connecting');
+        const listeners = [
+            // A provider refreshing its whole tree only refreshes its own root node here
+            provider.onDidChangeTreeData(element => this._onDidChangeTreeData.fire(element || this.connections.get(id)?.item)),
+            provider.onDidChangeFile(events => this._emitter.fire(events)),
+            provider.onDidInvalidatePath(path => {
+                if (id === this.activeId) {
+                    this._onDidInvalidatePath.fire(path);
+                }
+            }),
+            provider.onAuthenticationFailed(() => this._onAuthenticationFailed.fire(connectionName)),
+            provider.onConnectionLost(() => {
+                this.setStatus(connectionName, 'reconnecting');
+                this._onConnectionLost.fire(connectionName);
+            })
+        ];
+
+        this.connections.set(id, { name: connectionName, provider, item, listeners });
+        this._onDidChangeTreeData.fire(null);
+        return provider;
+    }
+
+    get(connectionName: string): FileExplorerProvider | undefined {
+        return this.connections.get(ConnectionManager.idFor(connectionName))?.provider;
+    }
+
+    getById(connectionId: string): FileExplorerProvider | undefined {
+        return this.connections.get(connectionId)?.provider;
+    }
+
+    getConnectionNames(): string[] {
+        return Array.from(this.connections.values()).map(connection => connection.name);
+    }
+
+    getProviders(): FileExplorerProvider[] {
+        return Array.from(this.connections.values()).map(connection => connection.provider);
+    }
+
+    remove(connectionName: string): void {
+        const id = ConnectionManager.idFor(connectionName);
+        const connection = this.connections.get(id);
+        if (!connection) {
+            return;
+        }
+
+        connection.provider.disconnect();
+        connection.listeners.forEach(listener => listener.dispose());
+        this.connections.delete(id);
+
+        if (this.activeId === id) {
+            this.activeId = this.connections.keys().next().value;
+            this._onDidChangeActive.fire();
+        }
+        this._onDidChangeTreeData.fire(null);
+    }
+
+    setStatus(connectionName: string, status: ConnectionStatus): void {
+        const id = ConnectionManager.idFor(connectionName);
+        const connection = this.connections.get(id);
+        if (!connection) {
+            return;
+        }
+        connection.item = new ConnectionItem(connectionName, id, status, connection.provider.getServerUrl());
+        this._onDidChangeTreeData.fire(null);
+    }
+
+    /**
+     * The connection used by commands that don't act on a tree item: the one last selected
+     * in the tree or, failing that, the last one connected.
+     */
+    getActiveProvider(): FileExplorerProvider {
+        return (this.activeId && this.connections.get(this.activeId)?.provider) || this.disconnectedProvider;
+    }
+
+    getActiveName(): string | undefined {
+        return this.activeId ? this.connections.get(this.activeId)?.name : undefined;
+    }
+
+    setActive(connectionName: string): void {
+        const id = ConnectionManager.idFor(connectionName);
+        if (this.connections.has(id) && this.activeId !== id) {
+            this.activeId = id;
+            this._onDidChangeActive.fire();
+        }
+    }
+
+    providerFor(node?: ExplorerNode): FileExplorerProvider {
+        if (node instanceof ConnectionItem) {
+            return this.connections.get(node.connectionId)?.provider || this.disconnectedProvider;
+        }
+        if (node instanceof FileItem) {
+            return this.connections.get(node.connectionId)?.provider || this.disconnectedProvider;
+        }
+        return this.getActiveProvider();
+    }
+
+    providerForUri(uri: vscode.Uri): FileExplorerProvider | undefined {
+        // URIs from before connections had ids (e.g. saved workspace folders) go to the active one
+        return uri.authority ? this.connections.get(uri.authority)?.provider : this.getActiveProvider();
+    }
+
+    /**
+     * Undoes the most recent rename, move or delete, whichever connection it was made on.
+     */
+    undo(): Promise<void> {
+        const providers = this.getProviders().filter(provider => provider.lastUndoTime > 0);
+        const latest = providers.sort((a, b) => b.lastUndoTime - a.lastUndoTime)[0];
+        return (latest || this.getActiveProvider()).undo();
+    }
+
+    gracefulShutdown(): void {
+        this.connections.forEach(connection => connection.provider.gracefulShutdown());
+    }
+
+    // TreeDataProvider
+
+    getTreeItem(element: ExplorerNode): vscode.TreeItem {
+        return element instanceof ConnectionItem ? element : this.providerFor(element).getTreeItem(element);
+    }
+
+    async getChildren(element?: ExplorerNode): Promise<ExplorerNode[]> {
+        if (!element) {
+            return Array.from(this.connections.values())
+                .map(connection => connection.item)
+                .sort((a, b) => a.connectionName.localeCompare(b.connectionName));
+        }
+        if (element instanceof ConnectionItem) {
+            return this.providerFor(element).getChildren();
+        }
+        return this.providerFor(element).getChildren(element);
+    }
+
+    // FileSystemProvider
+
+    watch(uri: vscode.Uri, options: { recursive: boolean; excludes: string[]; }): vscode.Disposable {
+        const provider = this.providerForUri(uri);
+        return provider ? provider.watch(uri, options) : new vscode.Disposable(() => undefined);
+    }
+
+    stat(uri: vscode.Uri): vscode.FileStat | Thenable<vscode.FileStat> {
+        return this.requireProvider(uri).stat(uri);
+    }
+
+    readDirectory(uri: vscode.Uri): Promise<[string, vscode.FileType][]> {
+        return this.requireProvider(uri).readDirectory(uri);
+    }
+
+    createDirectory(uri: vscode.Uri): Promise<void> {
+        return this.requireProvider(uri).createDirectory(uri);
+    }
+
+    readFile(uri: vscode.Uri): Promise<Uint8Array> {
+        return this.requireProvider(uri).readFile(uri);
+    }
+
+    writeFile(uri: vscode.Uri, content: Uint8Array, options: { create: boolean; overwrite: boolean; }): Promise<void> {
+        return this.requireProvider(uri).writeFile(uri, content, options);
+    }
+
+    delete(uri: vscode.Uri, options: { recursive: boolean; }): Promise<void> {
+        return this.requireProvider(uri).delete(uri, options);
+    }
+
+    rename(oldUri: vscode.Uri, newUri: vscode.Uri, options: { overwrite: boolean; }): Promise<void> {
+        if (oldUri.authority !== newUri.authority) {
+            throw vscode.FileSystemError.NoPermissions('Moving files between Jupyter servers is not supported');
+        }
+        return this.requireProvider(oldUri).rename(oldUri, newUri, options);
+    }
+
+    private requireProvider(uri: vscode.Uri): FileExplorerProvider {
+        const provider = this.providerForUri(uri);
+        if (!provider) {
+            throw vscode.FileSystemError.Unavailable(`Not connected to ${uri.authority}`);
+        }
+        return provider;
+    }
+
+    // TreeDragAndDropController
+
+    async handleDrag(source: readonly ExplorerNode[], dataTransfer: vscode.DataTransfer, token: vscode.CancellationToken): Promise<void> {
+        const items = source.filter((node): node is FileItem => node instanceof FileItem);
+        if (items.length > 0) {
+            await this.providerFor(items[0]).handleDrag(items, dataTransfer, token);
+        }
+    }
+
+    async handleDrop(target: ExplorerNode | undefined, dataTransfer: vscode.DataTransfer, token: vscode.CancellationToken): Promise<void> {
+        const provider = this.providerFor(target);
+        const internalTransfer = dataTransfer.get('application/vnd.code.tree.jupyterFileExplorer');
+        const sources = internalTransfer?.value as FileItem[] | undefined;
+        if (sources && sources.some(source => source.connectionId !== provider.connectionId)) {
+            vscode.window.showErrorMessage('Moving files between Jupyter servers is not supported. Download and upload them instead.');
+            return;
+        }
+
+        await provider.handleDrop(target instanceof FileItem ? target : undefined, dataTransfer, token);
+    }
+}
+
+export class ConnectionItem extends vscode.TreeItem {
+    constructor(
+        public readonly connectionName: string,
+        public readonly connectionId: string,
+        public readonly status: ConnectionStatus,
+        serverUrl?: string
+    ) {
+        super(connectionName, vscode.TreeItemCollapsibleState.Expanded);
+
+        this.id = `connection:${connectionId}`;
+        this.description = status === 'connected' ? undefined : status;
+        this.tooltip = `${connectionName}${serverUrl ? `\n${serverUrl}` : ''}\nStatus: ${status}`;
+        this.contextValue = status === 'connected' ? 'connection' : 'connection-offline';
+        this.iconPath = ConnectionItem.getIcon(status);
+    }
+
+    private static getIcon(status: ConnectionStatus): vscode.ThemeIcon {
+        switch (status) {
+            case 'connected':
+                return new vscode.ThemeIcon('vm-active', new vscode.ThemeColor('charts.green'));
+            case 'connecting':
+            case 'reconnecting':
+                return new vscode.ThemeIcon('loading~spin');
+            default:
+                return new vscode.ThemeIcon('vm-outline', new vscode.ThemeColor('charts.red'));
+        }
+    }
+}
@@ -1,7 +1,58 @@
 import * as vscode from 'vscode';
-import axios, { AxiosInstance } from 'axios';
+import axios, { AxiosInstance, AxiosResponse, InternalAxiosRequestConfig } from 'axios';
 import * as fs from 'fs';
 import * as path from 'path';
+import * as stream from 'stream';
+import { promisify } from 'util';
+import { matchesAnyGlob } from './glob';
+import { RemoteTrash, TrashEntry } from './RemoteTrash';
+import { REMOTE_NOTEBOOK_TYPE } from './NotebookSerializer';
+
+interface WatchEntry {
+    uri: vscode.Uri;
+    recursive: boolean;
+    excludes: string[];
+    snapshot: Map<string, string> | null; // path -> "type:last_modified"
+}
+
+// A rename, move or soft delete that can be undone; paths are relative to the server root
+interface UndoEntry {
+    kind: 'rename' | 'move' | 'delete';
+    from: string;
+    to: string;
+    trashEntry?: TrashEntry;
+    overwritten?: TrashEntry; // Item the rename or move replaced, kept in the trash
+    time: number;
+}
+
+interface Checkpoint {
+    id: string;
+    last_modified: string;
+}
+
+// Set on a request that was replayed with a new token, so it is not replayed again
+interface RetriedRequestConfig extends InternalAxiosRequestConfig {
+    authRetried?: boolean;
+}
+
+const pipeline = promisify(stream.pipeline);
+
+function formatFileSize(bytes: number): string {
+    if (bytes === 0) return '0 B';
+    
+    const k = 1024;
+    const sizes = ['B', 'KB', 'MB', 'GB', 'TB'];
+    const i = Math.floor(Math.log(bytes) / Math.log(k));
+    
+    return parseFloat((bytes / Math.pow(k, i)).toFixed(1)) + ' ' + sizes[i];
+}
+
+function formatDuration(ms: number): string {
+    const totalSeconds = Math.max(0, Math.round(ms / 1000));
+    const minutes = Math.floor(totalSeconds / 60);
+    const seconds = totalSeconds % 60;
+    return minutes > 0 ? `${minutes}m ${seconds}s` : `${seconds}s`;
+}
 
 export class FileExplorerProvider implements vscode.TreeDataProvider<FileItem>, vscode.FileSystemProvider, vscode.TreeDragAndDropController<FileItem> {
     private _onDidChangeTreeData: vscode.EventEmitter<FileItem | undefined | null> = new vscode.EventEmitter<FileItem | undefined | null>();
@@ -11,6 +62,14 @@ export class FileExplorerProvider implements vscode.TreeDataProvider<FileItem>,
     private _onConnectionLost: vscode.EventEmitter<void> = new vscode.EventEmitter<void>();
     readonly onConnectionLost: vscode.Event<void> = this._onConnectionLost.event;
 
+    // Fired when the server rejects the token (401/403), e.g. after it expired
+    private _onAuthenticationFailed: vscode.EventEmitter<void> = new vscode.EventEmitter<void>();
+    readonly onAuthenticationFailed: vscode.Event<void> = this._onAuthenticationFailed.event;
+
+    // Paths whose cached listings were dropped because they changed
+    private _onDidInvalidatePath: vscode.EventEmitter<string> = new vscode.EventEmitter<string>();
+    readonly onDidInvalidatePath: vscode.Event<string> = this._onDidInvalidatePath.event;
+
     // Drag and drop support
     readonly dropMimeTypes = [
         'text/uri-list',
@@ -21,6 +80,7 @@ export class FileExplorerProvider implements vscode.TreeDataProvider<FileItem>,
     private jupyterServerUrl: string = '';
     private jupyterToken: string = '';
     private remotePath: string = '/';
+    private connectionName: string = '';
     private axiosInstance: AxiosInstance | null = null;
     private isConnected: boolean = false;
 
@@ -34,14 +94,53 @@ export class FileExplorerProvider implements vscode.TreeDataProvider<FileItem>,
     private currentCacheMemory: number = 0;
     private pendingRequests = new Map<string, Promise<any>>();
 
+    // Re-authentication after the server rejects the token (401/403)
+    private tokenRefresher: (() => Promise<string | undefined>) | undefined;
+    private reauthPromise: Promise<string | undefined> | null = null;
+    private reauthDeclined: boolean = false;
+
+    // Polling-based file watching for the FileSystemProvider
+    private watchers = new Map<number, WatchEntry>();
+    private nextWatchId: number = 0;
+    private watchTimer: NodeJS.Timeout | undefined;
+    private maxWatchedDirectories: number = 50; // Limit recursive polling per watch
+
+    // Tree items by server path so watch events can refresh single nodes
+    private treeItems = new Map<string, FileItem>();
+
+    // Item copied or cut in the tree, waiting to be pasted
+    private clipboard: { items: FileItem[]; cut: boolean } | undefined;
+
+    // Soft delete into the trash folder, and the operations "Undo" can revert
+    readonly trash = new RemoteTrash(this);
+    private undoStack: UndoEntry[] = [];
+    private maxUndoEntries: number = 50;
+
+    // Content format last seen on the server for each file path
+    private remoteFormats = new Map<string, 'text' | 'base64'>();
+
+    // Server version of each file as last read or written, for save-conflict detection
+    private knownVersions = new Map<string, { lastModified?: string; hash?: string }>();
+
+    // Checkpoint content shown in "Compare with Checkpoint" diffs, by checkpoint URI
+    private checkpointContents = new Map<string, string>();
+
     private _emitter = new vscode.EventEmitter<vscode.FileChangeEvent[]>();
     readonly onDidChangeFile: vscode.Event<vscode.FileChangeEvent[]> = this._emitter.event;
 
-    constructor() {
+    /**
+     * @param connectionId Identifies the connection in `jupyter-remote` URIs (their authority)
+     * and in the tree items this provider creates.
+     */
+    constructor(public readonly connectionId: string = '') {
         // Initialize with default values or prompt the user
         this.updateConfigSettings();
     }
 
+    public toRemoteUri(filePath: string, scheme: string = 'jupyter-remote'): vscode.Uri {
+        return vscode.Uri.from({ scheme, authority: this.connectionId, path: '/' + filePath.replace(/^\/+/, '') });
+    }
+
     private updateConfigSettings(): void {
         const config = vscode.workspace.getConfiguration('jupyterFileExplorer');
         this.requestDelay = config.get<number>('requestDelay', 100);
@@ -99,7 +198,7 @@ export class FileExplorerProvider implements vscode.TreeDataProvider<FileItem>,
         }
     }
 
-    private invalidateCacheForPath(path: string): void {
+    public invalidateCacheForPath(path: string): void {
         // Invalidate cache entries that might be affected by changes to this path
         const keysToDelete: string[] = [];
         for (const [key] of this.cache) {
@@ -108,6 +207,7 @@ export class FileExplorerProvider implements vscode.TreeDataProvider<FileItem>,
             }
         }
         keysToDelete.forEach(key => this.cache.delete(key));
+        this._onDidInvalidatePath.fire(path);
     }
 
     async setConnection(url: string, token: string, remotePath: string, connectionName?: string) {
@@ -131,12 +231,16 @@ export class FileExplorerProvider implements vscode.TreeDataProvider<FileItem>,
             
             this.jupyterServerUrl = serverUrl.endsWith('/') ? serverUrl : serverUrl + '/';
             this.jupyterToken = token;
+            this.connectionName = connectionName || serverUrl;
+            this.reauthDeclined = false;
             // The remote path is now part of the base URL, so we browse from its root.
             this.remotePath = '/'; 
             
             // Clear any existing connection state
             this.clearCache();
             this.pendingRequests.clear();
+            this.remoteFormats.clear();
+            this.knownVersions.clear();
             
             this.setupAxiosInstance();
             
@@ -147,6 +251,14 @@ export class FileExplorerProvider implements vscode.TreeDataProvider<FileItem>,
             
             this.isConnected = true;
             this.refresh();
+
+            // Let workspace folders mounted before the connection existed re-read the tree
+            this._emitter.fire([{ type: vscode.FileChangeType.Changed, uri: this.toRemoteUri('') }]);
+
+            // Watches survive reconnects, but their snapshots belong to the old connection
+            this.stopWatchPolling();
+            this.watchers.forEach(entry => entry.snapshot = null);
+            this.scheduleWatchPoll();
             
             console.log(`Successfully connected to ${this.jupyterServerUrl}`);
         } catch (error) {
@@ -173,6 +285,9 @@ export class FileExplorerProvider implements vscode.TreeDataProvider<FileItem>,
         this.axiosInstance = null;
         this.isConnected = false;
         this.clearCache(); // Clear all cache on disconnect
+        this.remoteFormats.clear();
+        this.knownVersions.clear();
+        this.stopWatchPolling();
         
         // Reset rate limiting
         this.lastRequestTime = 0;
@@ -202,6 +317,7 @@ export class FileExplorerProvider implements vscode.TreeDataProvider<FileItem>,
 
     refresh(): void {
         this.clearCache(); // Clear cache on manual refresh
+        this.treeItems.clear();
         this._onDidChangeTreeData.fire(null);
     }
 
@@ -252,13 +368,24 @@ export class FileExplorerProvider implements vscode.TreeDataProvider<FileItem>,
 
         // Add request interceptor for rate limiting
         this.axiosInstance.interceptors.request.use(async (config) => {
+            // Hold new requests while the user is entering a new token
+            if (this.reauthPromise) {
+                await this.reauthPromise;
+            }
             await this.enforceRateLimit();
+            config.headers['Authorization'] = `token ${this.jupyterToken}`;
             return config;
         });
 
         // Add response interceptor for error handling
         this.axiosInstance.interceptors.response.use(
-            (response) => response,
+            async (response) => {
+                // 4xx statuses do not throw, so expired tokens have to be caught here
+                if ((response.status === 401 || response.status === 403) && !(response.config as RetriedRequestConfig).authRetried) {
+                    return this.retryWithNewToken(response);
+                }
+                return response;
+            },
             (error) => {
                 if (error.code === 'ECONNABORTED') {
                     console.log('Request timeout - server may be overloaded');
@@ -276,10 +403,96 @@ export class FileExplorerProvider implements vscode.TreeDataProvider<FileItem>,
         );
     }
 
+    /**
+     * Sets the callback that obtains a new token when the server rejects the current one.
+     * It resolves to undefined when the user gives up.
+     */
+    public setTokenRefresher(refresher: () => Promise<string | undefined>): void {
+        this.tokenRefresher = refresher;
+    }
+
+    // True after the user dismissed the re-authentication prompt; reset by the next connect
+    public get authenticationDeclined(): boolean {
+        return this.reauthDeclined;
+    }
+
+    private async retryWithNewToken(response: AxiosResponse): Promise<AxiosResponse> {
+        if (!this.tokenRefresher || this.reauthDeclined || !this.axiosInstance) {
+            return response;
+        }
+
+        // Jupyter also answers 403 for files the user may not access, so only a token the
+        // server no longer accepts for api/status is treated as expired
+        if (!this.reauthPromise && response.status === 403 && await this.isTokenAccepted()) {
+            return response;
+        }
+
+        const token = await this.reauthenticate();
+        if (!token || !this.axiosInstance) {
+            return response;
+        }
+
+        (response.config as RetriedRequestConfig).authRetried = true;
+        return this.axiosInstance.request(response.config);
+    }
+
+    private reauthenticate(): Promise<string | undefined> {
+        // Requests failing while the prompt is open all wait for the same new token
+        if (!this.reauthPromise) {
+            this.reauthPromise = this.refreshToken();
+        }
+        return this.reauthPromise;
+    }
+
+    private async refreshToken(): Promise<string | undefined> {
+        try {
+            const token = await this.tokenRefresher!();
+            if (token) {
+                this.jupyterToken = token;
+                this.clearCache();
+            } else {
+                // Don't prompt again for every failing request until the next connect
+                this.reauthDeclined = true;
+            }
+            return token;
+        } catch (error) {
+            console.error('Failed to refresh token:', error);
+            this.reauthDeclined = true;
+            return undefined;
+        } finally {
+            this.reauthPromise = null;
+        }
+    }
+
+    private async isTokenAccepted(): Promise<boolean> {
+        try {
+            const response = await axios.get(`${this.jupyterServerUrl}api/status`, {
+                headers: { 'Authorization': `token ${this.jupyterToken}` },
+                timeout: 5000,
+                validateStatus: () => true
+            });
+            return response.status !== 401 && response.status !== 403;
+        } catch (error) {
+            return true;
+        }
+    }
+
     public getAxiosInstance(): AxiosInstance | null {
         return this.axiosInstance;
     }
 
+    public getServerUrl(): string {
+        return this.jupyterServerUrl;
+    }
+
+    public getToken(): string {
+        return this.jupyterToken;
+    }
+
+    public getConnectionName(): string {
+        return this.connectionName;
+    }
+
     private handleConnectionLoss(): void {
         console.log('Connection loss detected, emitting event...');
         
@@ -307,6 +520,7 @@ export class FileExplorerProvider implements vscode.TreeDataProvider<FileItem>,
             if (isHealthy && !this.isConnected) {
                 this.isConnected = true;
                 console.log('Connection restored');
+                this.scheduleWatchPoll();
             }
             
             return isHealthy;
@@ -325,6 +539,17 @@ export class FileExplorerProvider implements vscode.TreeDataProvider<FileItem>,
         // Apply adaptive rate limiting based on error type
         this.adaptiveRateLimit(error);
         
+        const status = axios.isAxiosError(error) ? error.response?.status : error?.status;
+        if (status === 401 || status === 403) {
+            // Jupyter also answers 403 for files the user may not access, so only a token the
+            // server no longer accepts for api/status is reported
+            this.isTokenAccepted().then(accepted => {
+                if (!accepted) {
+                    this._onAuthenticationFailed.fire();
+                }
+            });
+        }
+        
         if (axios.isAxiosError(error)) {
             if (error.response) {
                 errorMessage += `: ${error.response.status} - ${error.response.data?.message || error.response.statusText}`;
@@ -539,6 +764,9 @@ export class FileExplorerProvider implements vscode.TreeDataProvider<FileItem>,
         try {
             const response = await this.makeRequestWithCache(apiUrl);
             
+            if (response && (response.status === 401 || response.status === 403)) {
+                this.ensureSuccess(response);
+            }
             if (!response || !response.data) {
                 console.warn(`No data received from ${apiUrl}`);
                 return [];
@@ -550,8 +778,9 @@ export class FileExplorerProvider implements vscode.TreeDataProvider<FileItem>,
             }
             
             const items = response.data.content.map((item: any) => 
-                new FileItem(item.name, item.type === 'directory', item.path, item)
+                new FileItem(item.name, item.type === 'directory', item.path, item, this.connectionId)
             );
+            items.forEach((item: FileItem) => this.treeItems.set(item.uri, item));
             
             return this.sortItems(items);
         } catch (error) {
@@ -582,7 +811,13 @@ export class FileExplorerProvider implements vscode.TreeDataProvider<FileItem>,
                 return;
             }
 
-            const uri = vscode.Uri.parse(`jupyter-remote:/${filePath}`).with({
+            // Binary files go through VS Code's editor resolution (image preview, hex editor)
+            if (this.isBinaryFile(fileName)) {
+                await vscode.commands.executeCommand('vscode.open', this.toRemoteUri(filePath));
+                return;
+            }
+
+            const uri = this.toRemoteUri(filePath).with({
                 path: `/${filePath}`,
                 fragment: fileName // This helps VS Code identify the file type
             });
@@ -606,14 +841,15 @@ export class FileExplorerProvider implements vscode.TreeDataProvider<FileItem>,
 
     private async openJupyterNotebook(filePath: string): Promise<void> {
         try {
-            const uri = vscode.Uri.parse(`jupyter-remote:/${filePath}`);
+            const uri = this.toRemoteUri(filePath);
             
-            // Try to open as notebook first
+            // The Jupyter extension's editor brings its kernels, otherwise use our own serializer
+            const notebookType = vscode.extensions.getExtension('ms-toolsai.jupyter') ? 'jupyter-notebook' : REMOTE_NOTEBOOK_TYPE;
             try {
-                await vscode.commands.executeCommand('vscode.openWith', uri, 'jupyter-notebook');
+                await vscode.commands.executeCommand('vscode.openWith', uri, notebookType);
             } catch (notebookError) {
-                // Fallback to text editor if notebook extension is not available
-                console.log('Jupyter notebook extension not available, opening as text');
+                // Fallback to text editor if the notebook cannot be opened as one
+                console.log('Notebook editor not available, opening as text:', notebookError);
                 const document = await vscode.workspace.openTextDocument(uri);
                 await vscode.languages.setTextDocumentLanguage(document, 'json');
                 await vscode.window.showTextDocument(document);
@@ -677,6 +913,50 @@ export class FileExplorerProvider implements vscode.TreeDataProvider<FileItem>,
         }
     }
 
+    public async fetchFileBytes(filePath: string, trackVersion: boolean = true): Promise<Uint8Array> {
+        if (!this.isConnected || !this.axiosInstance) {
+            throw new Error('Not connected to Jupyter Server.');
+        }
+
+        // Ask for type=file so notebooks come back as their raw bytes instead of a parsed model,
+        // and for the content hash used to detect conflicting saves
+        const apiUrl = `api/contents/${filePath}?type=file&hash=1`;
+        try {
+            // Bypass the response cache: file bodies don't belong in it, and would go stale on save
+            const response = await this.axiosInstance.get(apiUrl);
+
+            if (!response.data) {
+                throw new Error('No data received from server');
+            }
+            this.ensureSuccess(response);
+            if (response.data.type === 'directory') {
+                throw new Error('Cannot read directory as file');
+            }
+
+            // Remember how the server encodes this file so writes use the same format
+            const format = response.data.format === 'base64' ? 'base64' : 'text';
+            this.remoteFormats.set(filePath, format);
+            if (trackVersion) {
+                this.knownVersions.set(filePath, { lastModified: response.data.last_modified, hash: response.data.hash });
+            }
+
+            return format === 'base64'
+                ? Buffer.from(response.data.content || '', 'base64')
+                : Buffer.from(response.data.content || '', 'utf8');
+        } catch (error: any) {
+            this.handleApiError(error, `Failed to fetch file content for ${filePath}`, false);
+        }
+    }
+
+    private isValidUtf8(content: Uint8Array): boolean {
+        try {
+            new TextDecoder('utf-8', { fatal: true }).decode(content);
+            return true;
+        } catch (error) {
+            return false;
+        }
+    }
+
     private getLanguageId(fileName: string): string {
         // Handle special filenames first (before extension-based detection)
         const lowerFileName = fileName.toLowerCase();
@@ -832,31 +1112,290 @@ export class FileExplorerProvider implements vscode.TreeDataProvider<FileItem>,
         }
     }
 
-    public async saveFileToJupyter(filePath: string, content: string) {
+    public async saveFileToJupyter(filePath: string, content: string | Uint8Array) {
         if (!this.isConnected || !this.axiosInstance) {
             vscode.window.showErrorMessage('Not connected to Jupyter Server.');
             return;
         }
 
         try {
+            // Raw bytes go as base64 when the server reported the file as binary
+            // or when they would not survive a UTF-8 round trip
+            let body: { content: any; type: string; format: string };
+            const notebook = this.parseNotebook(filePath, content);
+            if (notebook) {
+                // Saved as a notebook model so the server validates and signs it like JupyterLab saves
+                body = { content: notebook, type: 'notebook', format: 'json' };
+            } else if (typeof content === 'string') {
+                body = { content, type: 'file', format: 'text' };
+            } else {
+                const bytes = Buffer.from(content);
+                const useBase64 = this.remoteFormats.get(filePath) === 'base64'
+                    || this.isBinaryFile(filePath)
+                    || !this.isValidUtf8(bytes);
+                body = useBase64
+                    ? { content: bytes.toString('base64'), type: 'file', format: 'base64' }
+                    : { content: bytes.toString('utf8'), type: 'file', format: 'text' };
+            }
+
+            await this.checkForSaveConflict(filePath);
+
             const apiUrl = `api/contents/${filePath}`;
-            await this.axiosInstance.put(apiUrl, {
-                content,
-                type: 'file',
-                format: 'text'
-            });
+            const response = this.ensureSuccess(await this.axiosInstance.put(apiUrl, body));
+            this.remoteFormats.set(filePath, body.format === 'base64' ? 'base64' : 'text');
+            this.knownVersions.set(filePath, { lastModified: response.data?.last_modified });
             
             // Invalidate cache for this file and its parent directory
             this.invalidateCacheForPath(filePath);
-            vscode.window.showInformationMessage('File saved to Jupyter Server.');
+            if (notebook && response.data?.message) {
+                // The server still saves notebooks that fail validation, but says why
+                vscode.window.showWarningMessage(`Notebook saved with warnings: ${response.data.message}`);
+            } else {
+                vscode.window.showInformationMessage('File saved to Jupyter Server.');
+            }
+        } catch (error) {
+            if (!(error instanceof vscode.FileSystemError)) {
+                vscode.window.showErrorMessage('Failed to save file to Jupyter Server.');
+            }
+            throw error;
+        }
+    }
+
+    /**
+     * Saves the open editor of a remote file if it has unsaved changes, for operations that
+     * work on the server copy.
+     */
+    public async saveIfDirty(uri: vscode.Uri): Promise<void> {
+        const target = uri.toString();
+        const document = vscode.workspace.notebookDocuments.find(doc => doc.uri.toString() === target)
+            || vscode.workspace.textDocuments.find(doc => doc.uri.toString() === target);
+        if (document?.isDirty) {
+            await document.save();
+        }
+    }
+
+    // Notebook JSON as an object, or undefined when the file is not a notebook or is not valid JSON
+    // (e.g. half-edited in the text editor), in which case it is saved as plain text
+    private parseNotebook(filePath: string, content: string | Uint8Array): any {
+        if (!filePath.toLowerCase().endsWith('.ipynb')) {
+            return undefined;
+        }
+        try {
+            const text = typeof content === 'string' ? content : Buffer.from(content).toString('utf8');
+            const notebook = JSON.parse(text);
+            return notebook && typeof notebook === 'object' && Array.isArray(notebook.cells) ? notebook : undefined;
         } catch (error) {
-            vscode.window.showErrorMessage('Failed to save file to Jupyter Server.');
+            return undefined;
+        }
+    }
+
+    private async checkForSaveConflict(filePath: string): Promise<void> {
+        const known = this.knownVersions.get(filePath);
+        if (!known || !this.axiosInstance) {
+            return;
+        }
+
+        const response = await this.axiosInstance.get(`api/contents/${filePath}?content=0&hash=1`);
+        if (response.status === 404) {
+            // Deleted on the server in the meantime, saving simply recreates it
+            return;
         }
+        this.ensureSuccess(response);
+
+        // Prefer the content hash (jupyter_server >= 2.11), fall back to the modification time
+        const changed = known.hash && response.data.hash
+            ? known.hash !== response.data.hash
+            : known.lastModified !== response.data.last_modified;
+        if (!changed) {
+            return;
+        }
+
+        const fileName = path.basename(filePath);
+        const choice = await vscode.window.showWarningMessage(
+            `${fileName} was changed on the server after you opened it. Overwrite the server version with your changes?`,
+            { modal: true },
+            'Overwrite',
+            'Compare'
+        );
+
+        if (choice === 'Overwrite') {
+            return;
+        }
+        if (choice === 'Compare') {
+            this.invalidateCacheForPath(filePath);
+            await vscode.commands.executeCommand(
+                'vscode.diff',
+                this.toRemoteUri(filePath, 'jupyter-remote-server'),
+                this.toRemoteUri(filePath),
+                `${fileName} (server) ↔ ${fileName} (local)`
+            );
+        }
+        throw vscode.FileSystemError.Unavailable(`Save cancelled: ${fileName} was changed on the server.`);
     }
 
     watch(uri: vscode.Uri, options: { recursive: boolean; excludes: string[]; }): vscode.Disposable {
-        // For now, we don't support watching files.
-        return new vscode.Disposable(() => {});
+        const id = this.nextWatchId++;
+        this.watchers.set(id, {
+            uri,
+            recursive: options.recursive,
+            excludes: options.excludes,
+            snapshot: null
+        });
+        this.scheduleWatchPoll();
+
+        return new vscode.Disposable(() => {
+            this.watchers.delete(id);
+            if (this.watchers.size === 0) {
+                this.stopWatchPolling();
+            }
+        });
+    }
+
+    private scheduleWatchPoll(): void {
+        const config = this.getConfig();
+        if (this.watchTimer || this.watchers.size === 0 || !this.isConnected || !config.get<boolean>('enableFileWatching', true)) {
+            return;
+        }
+
+        // Back off together with the adaptive rate limit when the server is under pressure
+        const interval = Math.max(config.get<number>('watchInterval', 5000), this.requestDelay * 20);
+        this.watchTimer = setTimeout(async () => {
+            try {
+                await this.pollWatchers();
+            } catch (error) {
+                console.warn('File watch poll failed (non-critical):', error);
+            }
+            this.watchTimer = undefined;
+            this.scheduleWatchPoll();
+        }, interval);
+    }
+
+    private stopWatchPolling(): void {
+        if (this.watchTimer) {
+            clearTimeout(this.watchTimer);
+            this.watchTimer = undefined;
+        }
+    }
+
+    private async pollWatchers(): Promise<void> {
+        const events: vscode.FileChangeEvent[] = [];
+        const changedPaths = new Set<string>();
+
+        for (const entry of Array.from(this.watchers.values())) {
+            if (!this.isConnected || !this.axiosInstance) {
+                return;
+            }
+
+            const basePath = entry.uri.path.startsWith('/') ? entry.uri.path.substring(1) : entry.uri.path;
+            const snapshot = new Map<string, string>();
+            const budget = { directories: this.maxWatchedDirectories };
+            const exists = await this.collectWatchSnapshot(basePath, entry, snapshot, budget);
+
+            const previous = entry.snapshot;
+            entry.snapshot = exists ? snapshot : new Map<string, string>();
+            if (!previous) {
+                // First poll only records the baseline
+                continue;
+            }
+
+            for (const [itemPath, stamp] of entry.snapshot) {
+                const previousStamp = previous.get(itemPath);
+                if (previousStamp === undefined) {
+                    events.push({ type: vscode.FileChangeType.Created, uri: this.toRemoteUri(itemPath) });
+                    changedPaths.add(itemPath);
+                } else if (previousStamp !== stamp) {
+                    events.push({ type: vscode.FileChangeType.Changed, uri: this.toRemoteUri(itemPath) });
+                    changedPaths.add(itemPath);
+                }
+            }
+            for (const itemPath of previous.keys()) {
+                if (!entry.snapshot.has(itemPath)) {
+                    events.push({ type: vscode.FileChangeType.Deleted, uri: this.toRemoteUri(itemPath) });
+                    changedPaths.add(itemPath);
+                }
+            }
+        }
+
+        if (events.length === 0) {
+            return;
+        }
+
+        console.log(`File watch detected ${events.length} change(s)`);
+        this._emitter.fire(events);
+        this.refreshAffectedNodes(changedPaths);
+    }
+
+    private async collectWatchSnapshot(
+        itemPath: string,
+        entry: WatchEntry,
+        snapshot: Map<string, string>,
+        budget: { directories: number }
+    ): Promise<boolean> {
+        if (!this.axiosInstance) {
+            return false;
+        }
+
+        // Bypass the response cache so changes are seen as soon as they happen
+        const response = await this.axiosInstance.get(`api/contents/${itemPath}?content=0`);
+        if (response.status === 404) {
+            return false;
+        }
+        if (response.status >= 400) {
+            throw new Error(`${response.status} - ${response.data?.message || response.statusText}`);
+        }
+
+        snapshot.set(itemPath, `${response.data.type}:${response.data.last_modified}`);
+        if (response.data.type !== 'directory') {
+            return true;
+        }
+
+        await this.collectDirectoryListing(itemPath, entry, snapshot, budget);
+        return true;
+    }
+
+    private async collectDirectoryListing(
+        dirPath: string,
+        entry: WatchEntry,
+        snapshot: Map<string, string>,
+        budget: { directories: number }
+    ): Promise<void> {
+        if (!this.axiosInstance) {
+            return;
+        }
+
+        const listing = await this.axiosInstance.get(`api/contents/${dirPath}`);
+        if (listing.status >= 400 || !Array.isArray(listing.data?.content)) {
+            return;
+        }
+
+        for (const child of listing.data.content) {
+            if (matchesAnyGlob(child.path, entry.excludes)) {
+                continue;
+            }
+            snapshot.set(child.path, `${child.type}:${child.last_modified}`);
+
+            if (entry.recursive && child.type === 'directory' && budget.directories > 0) {
+                budget.directories--;
+                await this.collectDirectoryListing(child.path, entry, snapshot, budget);
+            }
+        }
+    }
+
+    private refreshAffectedNodes(changedPaths: Set<string>): void {
+        const parentPaths = new Set<string>();
+        for (const changedPath of changedPaths) {
+            this.invalidateCacheForPath(changedPath);
+            parentPaths.add(this.extractParentPath(`/${changedPath}`).substring(1));
+        }
+
+        for (const parentPath of parentPaths) {
+            const node = this.treeItems.get(parentPath);
+            if (node) {
+                this._onDidChangeTreeData.fire(node);
+            } else if (parentPath === '') {
+                this._onDidChangeTreeData.fire(null);
+            }
+        }
     }
 
     stat(uri: vscode.Uri): vscode.FileStat | Thenable<vscode.FileStat> {
@@ -865,9 +1404,14 @@ export class FileExplorerProvider implements vscode.TreeDataProvider<FileItem>,
         }
 
         const filePath = uri.path.startsWith('/') ? uri.path.substring(1) : uri.path;
-        const apiUrl = `api/contents/${filePath}`;
+        // content=0 returns the model without the (possibly large) file body
+        const apiUrl = `api/contents/${filePath}?content=0`;
         
         return this.axiosInstance.get(apiUrl).then(response => {
+            if (response.status >= 400) {
+                throw this.toFileSystemError(response.status, uri, response.data?.message);
+            }
+
             const data = response.data;
             
             const isDirectory = data.type === 'directory';
@@ -880,48 +1424,103 @@ export class FileExplorerProvider implements vscode.TreeDataProvider<FileItem>,
                 mtime: lastModified,
                 size: data.size || 0
             };
-        }).catch(error => {
+        }, error => {
             console.error('Failed to stat file:', error);
-            // Fallback to basic stat if server query fails
-            return {
-                type: vscode.FileType.File,
-                ctime: Date.now(),
-                mtime: Date.now(),
-                size: 0
-            };
+            throw vscode.FileSystemError.Unavailable(uri);
         });
     }
 
-    readDirectory(uri: vscode.Uri): [string, vscode.FileType][] | Thenable<[string, vscode.FileType][]> {
-        // This method should be implemented to read directories for the FileSystemProvider.
-        throw vscode.FileSystemError.NoPermissions();
+    async readDirectory(uri: vscode.Uri): Promise<[string, vscode.FileType][]> {
+        if (!this.isConnected || !this.axiosInstance) {
+            throw vscode.FileSystemError.NoPermissions('Not connected to Jupyter Server.');
+        }
+
+        const dirPath = uri.path.startsWith('/') ? uri.path.substring(1) : uri.path;
+        const apiUrl = `api/contents/${dirPath}`;
+
+        let response: any;
+        try {
+            response = await this.makeRequestWithCache(apiUrl);
+        } catch (error) {
+            console.error('Failed to read directory:', error);
+            throw vscode.FileSystemError.Unavailable(uri);
+        }
+
+        if (response.status >= 400) {
+            throw this.toFileSystemError(response.status, uri, response.data?.message);
+        }
+        if (response.data?.type !== 'directory' || !Array.isArray(response.data.content)) {
+            throw vscode.FileSystemError.FileNotADirectory(uri);
+        }
+
+        return response.data.content.map((item: any): [string, vscode.FileType] => [
+            item.name,
+            item.type === 'directory' ? vscode.FileType.Directory : vscode.FileType.File
+        ]);
     }
 
     async createDirectory(uri: vscode.Uri): Promise<void> {
         if (!this.isConnected || !this.axiosInstance) {
-            throw new Error('Not connected to Jupyter Server.');
+            throw vscode.FileSystemError.NoPermissions('Not connected to Jupyter Server.');
         }
         const path = uri.path.startsWith('/') ? uri.path.substring(1) : uri.path;
         const apiUrl = `api/contents/${path}`;
+
+        if (await this.remoteExists(uri)) {
+            throw vscode.FileSystemError.FileExists(uri);
+        }
+
         try {
-            await this.axiosInstance.put(apiUrl, { type: 'directory', content: null });
-            const parentUri = vscode.Uri.parse(`jupyter-remote:${this.extractParentPath(uri.path)}`);
+            const response = await this.axiosInstance.put(apiUrl, { type: 'directory', content: null });
+            if (response.status >= 400) {
+                throw this.toFileSystemError(response.status, uri, response.data?.message);
+            }
+            this.invalidateCacheForPath(path);
+            const parentUri = this.toRemoteUri(this.extractParentPath(uri.path));
             this._emitter.fire([{ type: vscode.FileChangeType.Created, uri }]);
             this._emitter.fire([{ type: vscode.FileChangeType.Changed, uri: parentUri }]);
         } catch (error) {
             vscode.window.showErrorMessage(`Failed to create directory: ${error}`);
+            if (error instanceof vscode.FileSystemError) {
+                throw error;
+            }
             throw vscode.FileSystemError.Unavailable(`Failed to create directory: ${error}`);
         }
     }
 
+    private async remoteExists(uri: vscode.Uri): Promise<boolean> {
+        try {
+            await this.stat(uri);
+            return true;
+        } catch (error) {
+            if (error instanceof vscode.FileSystemError && error.code === 'FileNotFound') {
+                return false;
+            }
+            throw error;
+        }
+    }
+
+    private toFileSystemError(status: number, uri: vscode.Uri, message?: string): vscode.FileSystemError {
+        switch (status) {
+            case 404:
+                return vscode.FileSystemError.FileNotFound(uri);
+            case 409:
+                return vscode.FileSystemError.FileExists(uri);
+            case 401:
+            case 403:
+                return vscode.FileSystemError.NoPermissions(uri);
+            default:
+                return vscode.FileSystemError.Unavailable(message ? `${status} - ${message}` : uri);
+        }
+    }
+
     async readFile(uri: vscode.Uri): Promise<Uint8Array> {
         if (!this.isConnected || !this.axiosInstance) {
             throw vscode.FileSystemError.NoPermissions('Not connected to Jupyter Server.');
         }
         
         try {
-            const content = await this.fetchFileContent(uri.path.slice(1));
-            return Buffer.from(content, 'utf8');
+            return await this.fetchFileBytes(uri.path.slice(1));
         } catch (error) {
             console.error('Failed to read file:', error);
             throw vscode.FileSystemError.FileNotFound(`Failed to read file: ${error}`);
@@ -933,14 +1532,39 @@ export class FileExplorerProvider implements vscode.TreeDataProvider<FileItem>,
             throw vscode.FileSystemError.NoPermissions('Not connected to Jupyter Server.');
         }
         const path = uri.path.startsWith('/') ? uri.path.substring(1) : uri.path;
-        await this.saveFileToJupyter(path, content.toString());
-        const parentUri = vscode.Uri.parse(`jupyter-remote:${this.extractParentPath(uri.path)}`);
-        this._emitter.fire([{ type: options.create ? vscode.FileChangeType.Created : vscode.FileChangeType.Changed, uri }]);
+
+        const exists = await this.remoteExists(uri);
+        if (!exists && !options.create) {
+            throw vscode.FileSystemError.FileNotFound(uri);
+        }
+        if (exists && options.create && !options.overwrite) {
+            throw vscode.FileSystemError.FileExists(uri);
+        }
+
+        await this.saveFileToJupyter(path, content);
+        const parentUri = this.toRemoteUri(this.extractParentPath(uri.path));
+        this._emitter.fire([{ type: exists ? vscode.FileChangeType.Changed : vscode.FileChangeType.Created, uri }]);
         this._emitter.fire([{ type: vscode.FileChangeType.Changed, uri: parentUri }]);
-    }    async delete(uri: vscode.Uri, options: { recursive: boolean; }): Promise<void> {
+    }
+
+    async delete(uri: vscode.Uri, options: { recursive: boolean; }): Promise<void> {
         if (!this.isConnected || !this.axiosInstance) {
             throw vscode.FileSystemError.NoPermissions('Not connected to Jupyter Server.');
         }
+
+        try {
+            await this.deletePath(uri, options);
+        } catch (error: any) {
+            vscode.window.showErrorMessage(error.message);
+            throw vscode.FileSystemError.Unavailable(error.message);
+        }
+    }
+
+    // Deletes without showing errors, so batch operations can report failures together
+    private async deletePath(uri: vscode.Uri, options: { recursive: boolean; }): Promise<void> {
+        if (!this.axiosInstance) {
+            throw new Error('Not connected to Jupyter Server');
+        }
     
         const itemPath = uri.path.startsWith('/') ? uri.path.substring(1) : uri.path;
         
@@ -957,11 +1581,11 @@ export class FileExplorerProvider implements vscode.TreeDataProvider<FileItem>,
                 // For files or non-recursive deletion, use simple delete
                 console.log(`Attempting simple deletion of: ${itemPath}`);
                 const apiUrl = `api/contents/${itemPath}`;
-                const response = await this.axiosInstance.delete(apiUrl);
+                const response = this.ensureSuccess(await this.axiosInstance.delete(apiUrl));
                 console.log(`Delete response:`, response.status, response.statusText);
             }
             
-            const parentUri = vscode.Uri.parse(`jupyter-remote:${this.extractParentPath(uri.path)}`);
+            const parentUri = this.toRemoteUri(this.extractParentPath(uri.path));
             this._emitter.fire([{ type: vscode.FileChangeType.Deleted, uri }]);
             this._emitter.fire([{ type: vscode.FileChangeType.Changed, uri: parentUri }]);
 
@@ -992,8 +1616,7 @@ export class FileExplorerProvider implements vscode.TreeDataProvider<FileItem>,
                 errorMessage += `: ${error.message}`;
             }
             
-            vscode.window.showErrorMessage(errorMessage);
-            throw vscode.FileSystemError.Unavailable(errorMessage);
+            throw new Error(errorMessage);
         }
     }
 
@@ -1123,14 +1746,26 @@ export class FileExplorerProvider implements vscode.TreeDataProvider<FileItem>,
 
         const itemPath = uri.path.startsWith('/') ? uri.path.substring(1) : uri.path;
         
+        try {
+            const aggressive = await this.forceDeletePath(uri);
+            vscode.window.showInformationMessage(`Successfully force deleted ${itemPath}${aggressive ? ' using aggressive deletion' : ''}`);
+        } catch (error: any) {
+            vscode.window.showErrorMessage(error.message);
+            throw vscode.FileSystemError.Unavailable(error.message);
+        }
+    }
+
+    // Returns whether the aggressive strategy was needed; shows no messages, like deletePath
+    private async forceDeletePath(uri: vscode.Uri): Promise<boolean> {
+        const itemPath = uri.path.startsWith('/') ? uri.path.substring(1) : uri.path;
+        
         try {
             console.log(`Starting force deletion of: ${itemPath}`);
             
             // Strategy 1: Try normal deletion first
             try {
-                await this.delete(uri, { recursive: true });
-                vscode.window.showInformationMessage(`Successfully force deleted ${itemPath}`);
-                return;
+                await this.deletePath(uri, { recursive: true });
+                return false;
             } catch (error) {
                 console.log(`Normal deletion failed, trying force strategies...`);
             }
@@ -1138,17 +1773,14 @@ export class FileExplorerProvider implements vscode.TreeDataProvider<FileItem>,
             // Strategy 2: Try to list and delete all files individually with extended retry
             await this.forceDeleteRecursive(itemPath);
             
-            vscode.window.showInformationMessage(`Successfully force deleted ${itemPath} using aggressive deletion`);
-            
-            const parentUri = vscode.Uri.parse(`jupyter-remote:${this.extractParentPath(uri.path)}`);
+            const parentUri = this.toRemoteUri(this.extractParentPath(uri.path));
             this._emitter.fire([{ type: vscode.FileChangeType.Deleted, uri }]);
             this._emitter.fire([{ type: vscode.FileChangeType.Changed, uri: parentUri }]);
+            return true;
 
         } catch (error: any) {
             console.error('Force delete failed:', error);
-            const errorMessage = `Force delete failed for ${itemPath}: ${error.message}. Some files may be permanently locked or protected by the server.`;
-            vscode.window.showErrorMessage(errorMessage);
-            throw vscode.FileSystemError.Unavailable(errorMessage);
+            throw new Error(`Force delete failed for ${itemPath}: ${error.message}. Some files may be permanently locked or protected by the server.`);
         }
     }
 
@@ -1225,9 +1857,33 @@ export class FileExplorerProvider implements vscode.TreeDataProvider<FileItem>,
         const newPath = newUri.path.startsWith('/') ? newUri.path.substring(1) : newUri.path;
         const apiUrl = `api/contents/${oldPath}`;
         try {
-            await this.axiosInstance.patch(apiUrl, { path: newPath });
-            const oldParentUri = vscode.Uri.parse(`jupyter-remote:${this.extractParentPath(oldUri.path)}`);
-            const newParentUri = vscode.Uri.parse(`jupyter-remote:${this.extractParentPath(newUri.path)}`);
+            let overwritten: TrashEntry | undefined;
+            if (await this.remoteExists(newUri)) {
+                if (!options.overwrite) {
+                    throw vscode.FileSystemError.FileExists(newUri);
+                }
+                // The Contents API refuses to rename onto an existing path. With the trash on,
+                // the replaced item goes there so undoing the rename brings it back too
+                if (this.trash.isEnabled() && !this.trash.contains(newPath)) {
+                    const targetStat = await this.stat(newUri);
+                    overwritten = await this.trash.moveToTrash(newPath, targetStat.type === vscode.FileType.Directory ? 'directory' : 'file');
+                } else {
+                    const deleteResponse = await this.axiosInstance.delete(`api/contents/${newPath}`);
+                    if (deleteResponse.status >= 400) {
+                        throw this.toFileSystemError(deleteResponse.status, newUri, deleteResponse.data?.message);
+                    }
+                }
+            }
+
+            const response = await this.axiosInstance.patch(apiUrl, { path: newPath });
+            if (response.status >= 400) {
+                throw this.toFileSystemError(response.status, oldUri, response.data?.message);
+            }
+            this.invalidateCacheForPath(oldPath);
+            this.invalidateCacheForPath(newPath);
+            this.recordUndo(this.extractParentPath(oldUri.path) === this.extractParentPath(newUri.path) ? 'rename' : 'move', oldPath, newPath, undefined, overwritten);
+            const oldParentUri = this.toRemoteUri(this.extractParentPath(oldUri.path));
+            const newParentUri = this.toRemoteUri(this.extractParentPath(newUri.path));
             this._emitter.fire([
                 { type: vscode.FileChangeType.Deleted, uri: oldUri },
                 { type: vscode.FileChangeType.Created, uri: newUri }
@@ -1238,6 +1894,9 @@ export class FileExplorerProvider implements vscode.TreeDataProvider<FileItem>,
             }
         } catch (error) {
             vscode.window.showErrorMessage(`Failed to rename: ${error}`);
+            if (error instanceof vscode.FileSystemError) {
+                throw error;
+            }
             throw vscode.FileSystemError.Unavailable(`Failed to rename: ${error}`);
         }
     }
@@ -1247,7 +1906,7 @@ export class FileExplorerProvider implements vscode.TreeDataProvider<FileItem>,
         const fileName = await vscode.window.showInputBox({ prompt: 'Enter file name', ignoreFocusOut: true });
         if (fileName) {
             const newFilePath = `${parentPath}/${fileName}`.replace('//', '/');
-            const uri = vscode.Uri.parse(`jupyter-remote:${newFilePath}`);
+            const uri = this.toRemoteUri(newFilePath);
             await this.writeFile(uri, new Uint8Array(Buffer.from('')), { create: true, overwrite: false });
             this.invalidateCacheForPath(parentPath);
             this.refresh();
@@ -1259,7 +1918,7 @@ export class FileExplorerProvider implements vscode.TreeDataProvider<FileItem>,
         const folderName = await vscode.window.showInputBox({ prompt: 'Enter folder name', ignoreFocusOut: true });
         if (folderName) {
             const newFolderPath = `${parentPath}/${folderName}`.replace('//', '/');
-            const uri = vscode.Uri.parse(`jupyter-remote:${newFolderPath}`);
+            const uri = this.toRemoteUri(newFolderPath);
             await this.createDirectory(uri);
             this.invalidateCacheForPath(parentPath);
             this.refresh();
@@ -1272,28 +1931,45 @@ export class FileExplorerProvider implements vscode.TreeDataProvider<FileItem>,
         const newName = await vscode.window.showInputBox({ prompt: 'Enter new name', value: oldName, ignoreFocusOut: true });
         if (newName && newName !== oldName) {
             const newPath = this.extractParentPath(oldPath) + '/' + newName;
-            const oldUri = vscode.Uri.parse(`jupyter-remote:${oldPath}`);
-            const newUri = vscode.Uri.parse(`jupyter-remote:${newPath}`);
+            const oldUri = this.toRemoteUri(oldPath);
+            const newUri = this.toRemoteUri(newPath);
             await this.rename(oldUri, newUri, { overwrite: false });
             this.refresh();
         }
     }
 
     async deleteFile(item: FileItem): Promise<void> {
-        const result = await vscode.window.showWarningMessage(
-            `Are you sure you want to delete ${item.label}?`, 
-            { modal: true }, 
-            'Delete', 
-            'Force Delete'
-        );
+        // Items already in the trash are always deleted for good
+        const useTrash = this.trash.isEnabled() && !this.trash.contains(item.uri);
+        const result = useTrash
+            ? await vscode.window.showWarningMessage(
+                `Move ${item.label} to the trash? You can restore it from the Trash view or undo with Ctrl+Z.`,
+                { modal: true },
+                'Move to Trash',
+                'Delete Permanently'
+            )
+            : await vscode.window.showWarningMessage(
+                `Are you sure you want to delete ${item.label}?`, 
+                { modal: true }, 
+                'Delete', 
+                'Force Delete'
+            );
         
-        if (result === 'Delete') {
-            const uri = vscode.Uri.parse(`jupyter-remote:${item.uri}`);
+        if (result === 'Move to Trash') {
+            try {
+                const entry = await this.trash.moveToTrash(item.uri, item.collapsible ? 'directory' : 'file');
+                this.recordUndo('delete', entry.originalPath, `${this.trash.folder}/${entry.name}`, entry);
+            } catch (error) {
+                vscode.window.showErrorMessage(`Failed to move ${item.label} to the trash: ${error}`);
+            }
+            this.refresh();
+        } else if (result === 'Delete' || result === 'Delete Permanently') {
+            const uri = this.toRemoteUri(item.uri);
             await this.delete(uri, { recursive: true });
             this.invalidateCacheForPath(item.uri);
             this.refresh();
         } else if (result === 'Force Delete') {
-            const uri = vscode.Uri.parse(`jupyter-remote:${item.uri}`);
+            const uri = this.toRemoteUri(item.uri);
             await this.forceDelete(uri);
             this.invalidateCacheForPath(item.uri);
             this.refresh();
@@ -1308,12 +1984,319 @@ export class FileExplorerProvider implements vscode.TreeDataProvider<FileItem>,
         );
         
         if (result === 'Force Delete') {
-            const uri = vscode.Uri.parse(`jupyter-remote:${item.uri}`);
+            const uri = this.toRemoteUri(item.uri);
             await this.forceDelete(uri);
             this.refresh();
         }
     }
 
+    async deleteFiles(items: FileItem[]): Promise<void> {
+        if (items.length <= 1) {
+            if (items[0]) {
+                await this.deleteFile(items[0]);
+            }
+            return;
+        }
+        if (!this.ensureConnected()) {
+            return;
+        }
+
+        const selected = this.topLevelItems(items);
+        // Items already in the trash are always deleted for good
+        const toTrash = (item: FileItem) => this.trash.isEnabled() && !this.trash.contains(item.uri);
+        const result = selected.some(toTrash)
+            ? await vscode.window.showWarningMessage(
+                `Move ${selected.length} items to the trash? You can restore them from the Trash view.`,
+                { modal: true },
+                'Move to Trash',
+                'Delete Permanently'
+            )
+            : await vscode.window.showWarningMessage(
+                `Are you sure you want to delete ${selected.length} items?`,
+                { modal: true },
+                'Delete',
+                'Force Delete'
+            );
+        if (!result) {
+            return;
+        }
+
+        await this.runBatch(`Deleting ${selected.length} items`, selected, { verb: 'delete', done: 'deleted' }, async item => {
+            if (result === 'Move to Trash' && toTrash(item)) {
+                const entry = await this.trash.moveToTrash(item.uri, item.collapsible ? 'directory' : 'file');
+                this.recordUndo('delete', entry.originalPath, `${this.trash.folder}/${entry.name}`, entry);
+            } else if (result === 'Force Delete') {
+                await this.forceDeletePath(this.toRemoteUri(item.uri));
+            } else {
+                await this.deletePath(this.toRemoteUri(item.uri), { recursive: true });
+            }
+            this.invalidateCacheForPath(item.uri);
+        });
+    }
+
+    async forceDeleteFiles(items: FileItem[]): Promise<void> {
+        if (items.length <= 1) {
+            if (items[0]) {
+                await this.forceDeleteFile(items[0]);
+            }
+            return;
+        }
+        if (!this.ensureConnected()) {
+            return;
+        }
+
+        const selected = this.topLevelItems(items);
+        const result = await vscode.window.showWarningMessage(
+            `Force delete will attempt aggressive deletion of ${selected.length} items. This may take longer and cannot be undone. Continue?`,
+            { modal: true },
+            'Force Delete'
+        );
+        if (result !== 'Force Delete') {
+            return;
+        }
+
+        await this.runBatch(`Force deleting ${selected.length} items`, selected, { verb: 'force delete', done: 'force deleted' }, async item => {
+            await this.forceDeletePath(this.toRemoteUri(item.uri));
+            this.invalidateCacheForPath(item.uri);
+        });
+    }
+
+    copyFiles(items: FileItem[]): void {
+        this.setClipboard(items, false);
+    }
+
+    cutFiles(items: FileItem[]): void {
+        this.setClipboard(items, true);
+    }
+
+    private setClipboard(items: FileItem[], cut: boolean): void {
+        if (items.length === 0) {
+            return;
+        }
+        this.clipboard = { items: this.topLevelItems(items), cut };
+        vscode.commands.executeCommand('setContext', 'jupyterFileExplorer.hasClipboard', true);
+        vscode.window.setStatusBarMessage(`${cut ? 'Cut' : 'Copied'} ${items.length === 1 ? items[0].label : `${items.length} items`}`, 3000);
+    }
+
+    async pasteFile(target?: FileItem): Promise<void> {
+        if (!this.clipboard || !this.ensureConnected()) {
+            return;
+        }
+
+        const { items, cut } = this.clipboard;
+        const targetPath = target ? (target.collapsible ? target.uri : this.extractParentPath(target.uri)) : this.remotePath;
+
+        if (items.length > 1) {
+            await this.runBatch(`Pasting ${items.length} items`, items, cut ? { verb: 'move', done: 'moved' } : { verb: 'copy', done: 'copied' }, async (item, token) => {
+                if (item.collapsible && (targetPath === item.uri || targetPath.startsWith(`${item.uri}/`))) {
+                    throw new Error('a folder cannot be pasted into itself');
+                }
+                if (!cut) {
+                    await this.copyItem(item, targetPath, token);
+                } else if (this.extractParentPath(item.uri) !== targetPath) {
+                    await this.moveItem(item.uri, `${targetPath}/${item.label}`.replace('//', '/'));
+                    this.invalidateCacheForPath(item.uri);
+                }
+            });
+            if (cut) {
+                this.clipboard = undefined;
+                vscode.commands.executeCommand('setContext', 'jupyterFileExplorer.hasClipboard', false);
+            }
+            this.invalidateCacheForPath(targetPath);
+            this.refresh();
+            return;
+        }
+
+        const item = items[0];
+
+        if (item.collapsible && (targetPath === item.uri || targetPath.startsWith(`${item.uri}/`))) {
+            vscode.window.showErrorMessage(`Cannot paste directory "${item.label}" into itself.`);
+            return;
+        }
+
+        try {
+            if (cut) {
+                if (this.extractParentPath(item.uri) !== targetPath) {
+                    await this.moveItem(item.uri, `${targetPath}/${item.label}`.replace('//', '/'));
+                    this.invalidateCacheForPath(item.uri);
+                }
+                // A cut item can only be pasted once
+                this.clipboard = undefined;
+                vscode.commands.executeCommand('setContext', 'jupyterFileExplorer.hasClipboard', false);
+            } else {
+                await this.copyItem(item, targetPath);
+            }
+            this.invalidateCacheForPath(targetPath);
+            this.refresh();
+        } catch (error) {
+            console.error(`Failed to paste ${item.label}:`, error);
+            vscode.window.showErrorMessage(`Failed to paste ${item.label}: ${error}`);
+        }
+    }
+
+    async duplicateFile(item: FileItem): Promise<void> {
+        if (!this.ensureConnected()) {
+            return;
+        }
+
+        const parentPath = this.extractParentPath(item.uri);
+        try {
+            await this.copyItem(item, parentPath);
+            this.invalidateCacheForPath(parentPath);
+            this.refresh();
+        } catch (error) {
+            console.error(`Failed to duplicate ${item.label}:`, error);
+            vscode.window.showErrorMessage(`Failed to duplicate ${item.label}: ${error}`);
+        }
+    }
+
+    // Batch operations pass their token and show their own progress
+    private async copyItem(item: FileItem, targetPath: string, token?: vscode.CancellationToken): Promise<string> {
+        const sourcePath = item.uri.replace(/^\/+/, '');
+        const targetDir = targetPath.replace(/^\/+|\/+$/g, '');
+
+        if (!item.collapsible) {
+            return this.copyFileTo(sourcePath, targetDir);
+        }
+
+        const copyDirectory = async (progress: vscode.Progress<{ message?: string }>, token: vscode.CancellationToken) => {
+            const name = await this.uniqueCopyName(targetDir, item.label);
+            const copyPath = targetDir ? `${targetDir}/${name}` : name;
+            await this.copyDirectoryRecursive(sourcePath, copyPath, progress, token);
+            return copyPath;
+        };
+        if (token) {
+            return copyDirectory({ report: () => undefined }, token);
+        }
+
+        return vscode.window.withProgress({
+            location: vscode.ProgressLocation.Notification,
+            title: `Copying ${item.label}`,
+            cancellable: true
+        }, copyDirectory);
+    }
+
+    private async copyFileTo(sourcePath: string, targetDir: string): Promise<string> {
+        if (!this.axiosInstance) {
+            throw new Error('Not connected to Jupyter Server');
+        }
+
+        // Copying into a directory lets the server pick the name; it adds "-Copy1", "-Copy2", ... on collisions
+        const response = this.ensureSuccess(await this.axiosInstance.post(`api/contents/${targetDir}`, { copy_from: sourcePath }));
+        return response.data?.path;
+    }
+
+    // copy_from only handles files, so directories are recreated and their files copied one by one
+    private async copyDirectoryRecursive(
+        sourcePath: string,
+        copyPath: string,
+        progress: vscode.Progress<{ message?: string }>,
+        token: vscode.CancellationToken
+    ): Promise<void> {
+        if (!this.axiosInstance) {
+            throw new Error('Not connected to Jupyter Server');
+        }
+        if (token.isCancellationRequested) {
+            throw new vscode.CancellationError();
+        }
+
+        const listing = this.ensureSuccess(await this.axiosInstance.get(`api/contents/${sourcePath}`));
+        this.ensureSuccess(await this.axiosInstance.put(`api/contents/${copyPath}`, { type: 'directory' }));
+
+        for (const child of listing.data.content || []) {
+            if (token.isCancellationRequested) {
+                throw new vscode.CancellationError();
+            }
+            progress.report({ message: child.path });
+
+            if (child.type === 'directory') {
+                await this.copyDirectoryRecursive(child.path, `${copyPath}/${child.name}`, progress, token);
+            } else {
+                await this.copyFileTo(child.path, copyPath);
+            }
+        }
+    }
+
+    // Same naming as JupyterLab: "data", "data-Copy1", "data-Copy2", ...
+    private async uniqueCopyName(targetDir: string, name: string): Promise<string> {
+        if (!this.axiosInstance) {
+            throw new Error('Not connected to Jupyter Server');
+        }
+
+        const baseName = name.replace(/-Copy\d*$/, '');
+        for (let i = 0; ; i++) {
+            const candidate = i === 0 ? baseName : `${baseName}-Copy${i}`;
+            const candidatePath = targetDir ? `${targetDir}/${candidate}` : candidate;
+            const response = await this.axiosInstance.get(`api/contents/${candidatePath}?content=0`);
+            if (response.status === 404) {
+                return candidate;
+            }
+            this.ensureSuccess(response);
+        }
+    }
+
+    /**
+     * Runs an operation on several items under one progress notification, at most
+     * `batchConcurrency` at a time, and reports the successes and failures together.
+     */
+    private async runBatch(
+        title: string,
+        items: FileItem[],
+        labels: { verb: string; done: string },
+        operation: (item: FileItem, token: vscode.CancellationToken) => Promise<void>
+    ): Promise<void> {
+        const concurrency = Math.max(1, vscode.workspace.getConfiguration('jupyterFileExplorer').get<number>('batchConcurrency', 4));
+        let successCount = 0;
+        const failures: string[] = [];
+        let cancelled = false;
+
+        await vscode.window.withProgress({
+            location: vscode.ProgressLocation.Notification,
+            title,
+            cancellable: true
+        }, async (progress, token) => {
+            const queue = items.slice();
+            const worker = async () => {
+                while (queue.length > 0 && !token.isCancellationRequested) {
+                    const item = queue.shift()!;
+                    try {
+                        await operation(item, token);
+                        successCount++;
+                    } catch (error) {
+                        if (!(error instanceof vscode.CancellationError)) {
+                            console.error(`Failed to ${labels.verb} ${item.uri}:`, error);
+                            failures.push(`${item.label} (${error instanceof Error ? error.message : error})`);
+                        }
+                    }
+                    progress.report({ increment: 100 / items.length, message: `${successCount + failures.length} of ${items.length}` });
+                }
+            };
+            await Promise.all(Array.from({ length: Math.min(concurrency, items.length) }, worker));
+            cancelled = token.isCancellationRequested;
+        });
+
+        this.refresh();
+
+        if (cancelled) {
+            vscode.window.showInformationMessage(`Cancelled after ${successCount} of ${items.length} item(s) were ${labels.done}.`);
+        } else if (successCount > 0) {
+            vscode.window.showInformationMessage(`Successfully ${labels.done} ${successCount} item(s).`);
+        }
+        if (failures.length > 0) {
+            const shown = failures.slice(0, 5).join(', ');
+            const more = failures.length > 5 ? ` and ${failures.length - 5} more` : '';
+            vscode.window.showWarningMessage(`Failed to ${labels.verb} ${failures.length} item(s): ${shown}${more}. Check the output for details.`);
+        }
+    }
+
+    // Drops selected items that are inside another selected folder; the folder covers them
+    private topLevelItems(items: readonly FileItem[]): FileItem[] {
+        const unique = items.filter((item, index) => items.findIndex(other => other.uri === item.uri) === index);
+        return unique.filter(item => !unique.some(other =>
+            other !== item && other.collapsible && item.uri.startsWith(`${other.uri}/`)
+        ));
+    }
+
     private extractParentPath(path: string): string {
         const parts = path.split('/');
         parts.pop();
@@ -1387,6 +2370,10 @@ export class FileExplorerProvider implements vscode.TreeDataProvider<FileItem>,
                 await this.uploadSingleFile(fileUri.fsPath, parentPath);
                 successCount++;
             } catch (error) {
+                if (error instanceof vscode.CancellationError) {
+                    vscode.window.showInformationMessage('Upload cancelled.');
+                    break;
+                }
                 const fileName = path.basename(fileUri.fsPath);
                 this.handleApiError(error, `Failed to upload ${fileName}`, false);
                 errorCount++;
@@ -1431,6 +2418,10 @@ export class FileExplorerProvider implements vscode.TreeDataProvider<FileItem>,
                 await this.uploadFolderRecursive(folderUri.fsPath, targetPath);
                 successCount++;
             } catch (error) {
+                if (error instanceof vscode.CancellationError) {
+                    vscode.window.showInformationMessage('Upload cancelled.');
+                    break;
+                }
                 console.error(`Failed to upload folder ${path.basename(folderUri.fsPath)}:`, error);
                 vscode.window.showErrorMessage(`Failed to upload folder ${path.basename(folderUri.fsPath)}: ${error}`);
                 errorCount++;
@@ -1453,7 +2444,7 @@ export class FileExplorerProvider implements vscode.TreeDataProvider<FileItem>,
         }
 
         if (item.collapsible) {
-            vscode.window.showErrorMessage('Cannot download a directory. Please select a file.');
+            await this.downloadFolder(item);
             return;
         }
 
@@ -1468,28 +2459,503 @@ export class FileExplorerProvider implements vscode.TreeDataProvider<FileItem>,
 
         try {
             const cleanPath = item.uri.startsWith('/') ? item.uri.substring(1) : item.uri;
-            const apiUrl = `api/contents/${cleanPath}`;
-            
-            const response = await this.makeRequestWithCache(apiUrl);
-            
-            if (response.data.type === 'file') {
-                const content = response.data.content;
-                let fileContent: Buffer;
-                
-                if (response.data.format === 'base64') {
-                    fileContent = Buffer.from(content, 'base64');
-                } else {
-                    fileContent = Buffer.from(content, 'utf8');
+
+            await vscode.window.withProgress({
+                location: vscode.ProgressLocation.Notification,
+                title: `Downloading ${item.label}`,
+                cancellable: true
+            }, async (progress, token) => {
+                let reported = 0;
+                await this.downloadToLocalFile(cleanPath, saveUri.fsPath, token, (bytesReceived, totalBytes) => {
+                    if (totalBytes) {
+                        const percent = (bytesReceived / totalBytes) * 100;
+                        progress.report({
+                            increment: percent - reported,
+                            message: `${formatFileSize(bytesReceived)} of ${formatFileSize(totalBytes)}`
+                        });
+                        reported = percent;
+                    } else {
+                        progress.report({ message: formatFileSize(bytesReceived) });
+                    }
+                });
+            });
+
+            vscode.window.showInformationMessage(`Successfully downloaded ${item.label}`);
+        } catch (error) {
+            if (error instanceof vscode.CancellationError) {
+                vscode.window.showInformationMessage(`Download of ${item.label} cancelled.`);
+                return;
+            }
+            this.handleApiError(error, `Failed to download ${item.label}`, false);
+        }
+    }
+
+    async downloadFolder(item: FileItem): Promise<void> {
+        if (!this.ensureConnected()) {
+            return;
+        }
+
+        if (!item.collapsible) {
+            await this.downloadFile(item);
+            return;
+        }
+
+        const folderUris = await vscode.window.showOpenDialog({
+            canSelectFiles: false,
+            canSelectFolders: true,
+            canSelectMany: false,
+            openLabel: 'Download Here'
+        });
+
+        if (!folderUris || folderUris.length === 0) {
+            return;
+        }
+
+        const cleanPath = item.uri.startsWith('/') ? item.uri.substring(1) : item.uri;
+        const localRoot = path.join(folderUris[0].fsPath, item.label);
+        const result = { successCount: 0, failures: [] as string[] };
+
+        try {
+            await vscode.window.withProgress({
+                location: vscode.ProgressLocation.Notification,
+                title: `Downloading ${item.label}`,
+                cancellable: true
+            }, async (progress, token) => {
+                await this.downloadFolderRecursive(cleanPath, localRoot, result, progress, token);
+            });
+        } catch (error) {
+            if (!(error instanceof vscode.CancellationError)) {
+                throw error;
+            }
+            vscode.window.showInformationMessage(`Download of ${item.label} cancelled after ${result.successCount} file(s).`);
+            return;
+        }
+
+        if (result.successCount > 0) {
+            vscode.window.showInformationMessage(`Successfully downloaded ${result.successCount} file(s) to ${localRoot}.`);
+        }
+        if (result.failures.length > 0) {
+            const shown = result.failures.slice(0, 5).join(', ');
+            const more = result.failures.length > 5 ? ` and ${result.failures.length - 5} more` : '';
+            vscode.window.showWarningMessage(`Failed to download ${result.failures.length} item(s): ${shown}${more}. Check the output for details.`);
+        }
+    }
+
+    async downloadItems(items: FileItem[]): Promise<void> {
+        if (items.length <= 1) {
+            if (items[0]) {
+                await this.downloadFile(items[0]);
+            }
+            return;
+        }
+        if (!this.ensureConnected()) {
+            return;
+        }
+
+        const folderUris = await vscode.window.showOpenDialog({
+            canSelectFiles: false,
+            canSelectFolders: true,
+            canSelectMany: false,
+            openLabel: 'Download Here'
+        });
+        if (!folderUris || folderUris.length === 0) {
+            return;
+        }
+
+        const selected = this.topLevelItems(items);
+        await this.runBatch(`Downloading ${selected.length} items`, selected, { verb: 'download', done: 'downloaded' }, async (item, token) => {
+            const cleanPath = item.uri.startsWith('/') ? item.uri.substring(1) : item.uri;
+            const localPath = path.join(folderUris[0].fsPath, item.label);
+            if (!item.collapsible) {
+                await this.downloadToLocalFile(cleanPath, localPath, token);
+                return;
+            }
+
+            const result = { successCount: 0, failures: [] as string[] };
+            await this.downloadFolderRecursive(cleanPath, localPath, result, { report: () => undefined }, token);
+            if (result.failures.length > 0) {
+                throw new Error(`${result.failures.length} of ${result.successCount + result.failures.length} file(s) failed`);
+            }
+        });
+    }
+
+    private async downloadFolderRecursive(
+        remotePath: string,
+        localPath: string,
+        result: { successCount: number; failures: string[] },
+        progress: vscode.Progress<{ message?: string; increment?: number }>,
+        token: vscode.CancellationToken
+    ): Promise<void> {
+        if (!this.axiosInstance) {
+            throw new Error('Not connected to Jupyter Server');
+        }
+
+        console.log(`Downloading folder: ${remotePath}`);
+        console.log(`Local path: ${localPath}`);
+
+        let contents: any[];
+        try {
+            const response = this.ensureSuccess(await this.axiosInstance.get(`api/contents/${remotePath}`));
+            contents = Array.isArray(response.data.content) ? response.data.content : [];
+            await fs.promises.mkdir(localPath, { recursive: true });
+        } catch (error: any) {
+            console.error(`Failed to download folder ${remotePath}:`, error);
+            result.failures.push(`${remotePath}/`);
+            return;
+        }
+
+        for (const entry of contents) {
+            if (token.isCancellationRequested) {
+                throw new vscode.CancellationError();
+            }
+
+            const localEntryPath = path.join(localPath, entry.name);
+            if (entry.type === 'directory') {
+                await this.downloadFolderRecursive(entry.path, localEntryPath, result, progress, token);
+                continue;
+            }
+
+            progress.report({ message: `${entry.path} (${result.successCount + result.failures.length + 1})` });
+            try {
+                await this.downloadToLocalFile(entry.path, localEntryPath, token);
+                result.successCount++;
+            } catch (error) {
+                if (error instanceof vscode.CancellationError) {
+                    throw error;
                 }
-                
-                await fs.promises.writeFile(saveUri.fsPath, fileContent);
-                vscode.window.showInformationMessage(`Successfully downloaded ${item.label}`);
-            } else {
-                vscode.window.showErrorMessage('Selected item is not a file.');
+                console.error(`Failed to download ${entry.path}:`, error);
+                result.failures.push(entry.path);
             }
+        }
+    }
+
+    public async downloadToLocalFile(
+        cleanPath: string,
+        localPath: string,
+        token?: vscode.CancellationToken,
+        onProgress?: (bytesReceived: number, totalBytes?: number) => void
+    ): Promise<void> {
+        const streamed = await this.streamFromFilesEndpoint(cleanPath, localPath, token, onProgress);
+        if (streamed) {
+            return;
+        }
+
+        console.log(`files endpoint unavailable for ${cleanPath}, falling back to the contents API`);
+        if (!this.axiosInstance) {
+            throw new Error('Not connected to Jupyter Server');
+        }
+
+        // Bypass the response cache: file bodies don't belong in it
+        const response = this.ensureSuccess(await this.axiosInstance.get(`api/contents/${cleanPath}?type=file&format=base64`));
+        if (response.data.type === 'directory') {
+            throw new Error('Selected item is not a file.');
+        }
+        const fileContent = response.data.format === 'base64'
+            ? Buffer.from(response.data.content, 'base64')
+            : Buffer.from(response.data.content, 'utf8');
+
+        await fs.promises.writeFile(localPath, fileContent);
+        onProgress?.(fileContent.length, fileContent.length);
+    }
+
+    private async streamFromFilesEndpoint(
+        cleanPath: string,
+        localPath: string,
+        token?: vscode.CancellationToken,
+        onProgress?: (bytesReceived: number, totalBytes?: number) => void
+    ): Promise<boolean> {
+        if (!this.axiosInstance) {
+            throw new Error('Not connected to Jupyter Server');
+        }
+
+        const controller = new AbortController();
+        const cancelListener = token?.onCancellationRequested(() => controller.abort());
+
+        try {
+            const response = await this.axiosInstance.get(`files/${cleanPath}`, {
+                responseType: 'stream',
+                signal: controller.signal,
+                timeout: 0, // Large downloads may legitimately take longer than the default timeout
+                params: { download: 1 }
+            });
+
+            if (response.status >= 400) {
+                response.data.destroy();
+                return false;
+            }
+
+            const totalBytes = parseInt(response.headers['content-length'] || '', 10) || undefined;
+            let bytesReceived = 0;
+            response.data.on('data', (chunk: Buffer) => {
+                bytesReceived += chunk.length;
+                onProgress?.(bytesReceived, totalBytes);
+            });
+
+            try {
+                await pipeline(response.data, fs.createWriteStream(localPath));
+            } catch (error) {
+                // Remove the partial file so a cancelled or broken download leaves nothing behind
+                await fs.promises.unlink(localPath).catch(() => undefined);
+                throw error;
+            }
+            return true;
         } catch (error) {
-            this.handleApiError(error, `Failed to download ${item.label}`, false);
+            if (token?.isCancellationRequested) {
+                throw new vscode.CancellationError();
+            }
+            throw error;
+        } finally {
+            cancelListener?.dispose();
+        }
+    }
+
+    async openInWorkspace(item?: FileItem): Promise<void> {
+        if (!this.ensureConnected()) {
+            return;
+        }
+
+        if (item && !item.collapsible) {
+            vscode.window.showErrorMessage('Please select a folder to open in the workspace.');
+            return;
+        }
+
+        const folderPath = item ? item.uri : this.remotePath;
+        const cleanPath = folderPath.startsWith('/') ? folderPath.substring(1) : folderPath;
+        const uri = this.toRemoteUri(cleanPath);
+
+        if (vscode.workspace.workspaceFolders?.some(folder => folder.uri.toString() === uri.toString())) {
+            vscode.window.showInformationMessage(`${item ? item.label : 'The remote root'} is already open in the workspace.`);
+            return;
+        }
+
+        const name = item ? `${item.label} (${this.connectionName})` : this.connectionName;
+        const added = vscode.workspace.updateWorkspaceFolders(
+            vscode.workspace.workspaceFolders?.length ?? 0,
+            0,
+            { uri, name }
+        );
+        if (!added) {
+            vscode.window.showErrorMessage(`Failed to add ${name} to the workspace.`);
+        }
+    }
+
+    // Checkpoint support methods
+    /**
+     * Throws for 4xx responses, which the axios instance does not treat as errors. The
+     * thrown error carries the status.
+     */
+    public ensureSuccess(response: AxiosResponse): AxiosResponse {
+        if (response.status >= 400) {
+            throw Object.assign(new Error(`${response.status} - ${response.data?.message || response.statusText}`), { status: response.status });
+        }
+        return response;
+    }
+
+    private async listCheckpoints(filePath: string): Promise<Checkpoint[]> {
+        if (!this.axiosInstance) {
+            throw new Error('Not connected to Jupyter Server');
+        }
+
+        const cleanPath = filePath.startsWith('/') ? filePath.substring(1) : filePath;
+        const response = this.ensureSuccess(await this.axiosInstance.get(`api/contents/${cleanPath}/checkpoints`));
+        const checkpoints: Checkpoint[] = Array.isArray(response.data) ? response.data : [];
+
+        // Newest first
+        return checkpoints.sort((a, b) => new Date(b.last_modified).getTime() - new Date(a.last_modified).getTime());
+    }
+
+    private async pickCheckpoint(item: FileItem, placeHolder: string): Promise<Checkpoint | undefined> {
+        const checkpoints = await this.listCheckpoints(item.uri);
+        if (checkpoints.length === 0) {
+            vscode.window.showInformationMessage(`No checkpoints found for ${item.label}.`);
+            return undefined;
+        }
+
+        const picked = await vscode.window.showQuickPick(
+            checkpoints.map(checkpoint => {
+                const date = new Date(checkpoint.last_modified);
+                return {
+                    label: `${date.toLocaleDateString()} ${date.toLocaleTimeString()}`,
+                    description: checkpoint.id,
+                    checkpoint
+                };
+            }),
+            { placeHolder }
+        );
+        return picked?.checkpoint;
+    }
+
+    async createCheckpoint(item: FileItem): Promise<void> {
+        if (!this.ensureConnected() || !this.axiosInstance) {
+            return;
+        }
+
+        try {
+            const cleanPath = item.uri.startsWith('/') ? item.uri.substring(1) : item.uri;
+            const response = this.ensureSuccess(await this.axiosInstance.post(`api/contents/${cleanPath}/checkpoints`));
+            const checkpoint = response.data as Checkpoint;
+            const date = new Date(checkpoint.last_modified);
+            vscode.window.showInformationMessage(`Checkpoint created for ${item.label} at ${date.toLocaleTimeString()}.`);
+        } catch (error) {
+            this.handleApiError(error, `Failed to create checkpoint for ${item.label}`);
+        }
+    }
+
+    async showCheckpoints(item: FileItem): Promise<void> {
+        if (!this.ensureConnected()) {
+            return;
+        }
+
+        try {
+            const checkpoint = await this.pickCheckpoint(item, `Checkpoints of ${item.label}`);
+            if (!checkpoint) {
+                return;
+            }
+
+            const action = await vscode.window.showQuickPick(['Compare', 'Restore', 'Delete'], {
+                placeHolder: `What do you want to do with this checkpoint of ${item.label}?`
+            });
+            if (action === 'Compare') {
+                await this.showCheckpointDiff(item, checkpoint);
+            } else if (action === 'Restore') {
+                await this.restoreCheckpointById(item, checkpoint);
+            } else if (action === 'Delete') {
+                await this.deleteCheckpointById(item, checkpoint);
+            }
+        } catch (error) {
+            this.handleApiError(error, `Failed to list checkpoints for ${item.label}`);
+        }
+    }
+
+    async restoreCheckpoint(item: FileItem): Promise<void> {
+        if (!this.ensureConnected()) {
+            return;
+        }
+
+        try {
+            const checkpoint = await this.pickCheckpoint(item, `Select a checkpoint of ${item.label} to restore`);
+            if (checkpoint) {
+                await this.restoreCheckpointById(item, checkpoint);
+            }
+        } catch (error) {
+            this.handleApiError(error, `Failed to restore checkpoint for ${item.label}`);
+        }
+    }
+
+    async deleteCheckpoint(item: FileItem): Promise<void> {
+        if (!this.ensureConnected()) {
+            return;
+        }
+
+        try {
+            const checkpoint = await this.pickCheckpoint(item, `Select a checkpoint of ${item.label} to delete`);
+            if (checkpoint) {
+                await this.deleteCheckpointById(item, checkpoint);
+            }
+        } catch (error) {
+            this.handleApiError(error, `Failed to delete checkpoint for ${item.label}`);
+        }
+    }
+
+    async compareWithCheckpoint(item: FileItem): Promise<void> {
+        if (!this.ensureConnected()) {
+            return;
+        }
+
+        try {
+            const checkpoint = await this.pickCheckpoint(item, `Select a checkpoint of ${item.label} to compare with`);
+            if (checkpoint) {
+                await this.showCheckpointDiff(item, checkpoint);
+            }
+        } catch (error) {
+            this.handleApiError(error, `Failed to compare ${item.label} with checkpoint`);
+        }
+    }
+
+    private async restoreCheckpointById(item: FileItem, checkpoint: Checkpoint): Promise<void> {
+        if (!this.axiosInstance) {
+            throw new Error('Not connected to Jupyter Server');
+        }
+
+        const result = await vscode.window.showWarningMessage(
+            `Restore ${item.label} to the checkpoint from ${new Date(checkpoint.last_modified).toLocaleString()}? Current changes on the server will be lost.`,
+            { modal: true },
+            'Restore'
+        );
+        if (result !== 'Restore') {
+            return;
+        }
+
+        const cleanPath = item.uri.startsWith('/') ? item.uri.substring(1) : item.uri;
+        this.ensureSuccess(await this.axiosInstance.post(`api/contents/${cleanPath}/checkpoints/${checkpoint.id}`));
+
+        this.invalidateCacheForPath(cleanPath);
+        this._emitter.fire([{ type: vscode.FileChangeType.Changed, uri: this.toRemoteUri(cleanPath) }]);
+        this.refresh();
+        vscode.window.showInformationMessage(`Restored ${item.label} from checkpoint.`);
+    }
+
+    private async deleteCheckpointById(item: FileItem, checkpoint: Checkpoint): Promise<void> {
+        if (!this.axiosInstance) {
+            throw new Error('Not connected to Jupyter Server');
+        }
+
+        const cleanPath = item.uri.startsWith('/') ? item.uri.substring(1) : item.uri;
+        this.ensureSuccess(await this.axiosInstance.delete(`api/contents/${cleanPath}/checkpoints/${checkpoint.id}`));
+        vscode.window.showInformationMessage(`Deleted checkpoint of ${item.label}.`);
+    }
+
+    private async showCheckpointDiff(item: FileItem, checkpoint: Checkpoint): Promise<void> {
+        const cleanPath = item.uri.startsWith('/') ? item.uri.substring(1) : item.uri;
+        const checkpointUri = this.toRemoteUri(cleanPath, 'jupyter-remote-checkpoint').with({ query: checkpoint.id });
+
+        const content = await vscode.window.withProgress({
+            location: vscode.ProgressLocation.Notification,
+            title: `Reading checkpoint of ${item.label}`
+        }, () => this.readCheckpointContent(cleanPath, checkpoint));
+        if (!content) {
+            vscode.window.showErrorMessage(
+                `Comparing with a checkpoint isn't available on this server. It hides .ipynb_checkpoints or uses a custom checkpoint manager.`
+            );
+            return;
+        }
+        this.checkpointContents.set(checkpointUri.toString(), Buffer.from(content).toString('utf8'));
+
+        const date = new Date(checkpoint.last_modified);
+        await vscode.commands.executeCommand(
+            'vscode.diff',
+            checkpointUri,
+            this.toRemoteUri(cleanPath),
+            `${item.label} (checkpoint ${date.toLocaleString()}) ↔ ${item.label}`
+        );
+    }
+
+    /**
+     * Content of a checkpoint read by showCheckpointDiff, for the checkpoint side of the diff.
+     */
+    public getCheckpointContent(uri: vscode.Uri): string | undefined {
+        return this.checkpointContents.get(uri.toString());
+    }
+
+    // Undefined when the server does not let the checkpoint be read
+    private async readCheckpointContent(cleanPath: string, checkpoint: Checkpoint): Promise<Uint8Array | undefined> {
+        if (!this.axiosInstance) {
+            throw new Error('Not connected to Jupyter Server.');
+        }
+
+        // The Contents API has no endpoint for reading checkpoint content. The default
+        // FileCheckpoints manager stores them as .ipynb_checkpoints/<name>-<id><ext>, which
+        // can be read directly when the server allows hidden files (it doesn't by default)
+        const parentPath = this.extractParentPath(`/${cleanPath}`).replace(/^\//, '');
+        const extension = path.extname(cleanPath);
+        const baseName = path.basename(cleanPath, extension);
+        const hiddenPath = `${parentPath ? parentPath + '/' : ''}.ipynb_checkpoints/${baseName}-${checkpoint.id}${extension}`;
+        const hiddenResponse = await this.axiosInstance.get(`api/contents/${hiddenPath}?content=0`);
+        if (hiddenResponse.status < 400) {
+            return this.fetchFileBytes(hiddenPath, false);
         }
+
+        return undefined;
     }
 
     // Drag and drop support methods
@@ -1614,45 +3080,23 @@ export class FileExplorerProvider implements vscode.TreeDataProvider<FileItem>,
 
             console.log(`Moving ${sourceItems.length} items to: ${targetPath}`);
 
-            let successCount = 0;
-            let errorCount = 0;
-
-            for (const sourceItem of sourceItems) {
-                try {
-                    const sourceParent = this.extractParentPath(sourceItem.uri);
-                    
-                    if (sourceParent === targetPath) {
-                        console.log(`Skipping ${sourceItem.label} - already in target directory`);
-                        continue;
-                    }
-
-                    if (sourceItem.collapsible && targetPath.startsWith(sourceItem.uri)) {
-                        vscode.window.showErrorMessage(`Cannot move directory "${sourceItem.label}" into itself.`);
-                        errorCount++;
-                        continue;
-                    }
-
-                    const newPath = `${targetPath}/${sourceItem.label}`.replace('//', '/');
-                    console.log(`Moving ${sourceItem.uri} to ${newPath}`);
-                    
-                    await this.moveItem(sourceItem.uri, newPath);
-                    successCount++;
-                    
-                } catch (error) {
-                    console.error(`Failed to move ${sourceItem.label}:`, error);
-                    vscode.window.showErrorMessage(`Failed to move ${sourceItem.label}: ${error}`);
-                    errorCount++;
-                }
+            // Items already in the target directory stay where they are
+            const toMove = this.topLevelItems(sourceItems).filter(sourceItem => this.extractParentPath(sourceItem.uri) !== targetPath);
+            if (toMove.length === 0) {
+                return;
             }
 
-            this.refresh();
+            await this.runBatch(`Moving ${toMove.length} item(s)`, toMove, { verb: 'move', done: 'moved' }, async sourceItem => {
+                if (sourceItem.collapsible && (targetPath === sourceItem.uri || targetPath.startsWith(`${sourceItem.uri}/`))) {
+                    throw new Error('a folder cannot be moved into itself');
+                }
 
-            if (successCount > 0) {
-                vscode.window.showInformationMessage(`Successfully moved ${successCount} item(s).`);
-            }
-            if (errorCount > 0) {
-                vscode.window.showWarningMessage(`Failed to move ${errorCount} item(s). Check the output for details.`);
-            }
+                const newPath = `${targetPath}/${sourceItem.label}`.replace('//', '/');
+                console.log(`Moving ${sourceItem.uri} to ${newPath}`);
+                await this.moveItem(sourceItem.uri, newPath);
+                this.invalidateCacheForPath(sourceItem.uri);
+            });
+            this.invalidateCacheForPath(targetPath);
 
         } catch (error) {
             console.error('Failed to handle internal move:', error);
@@ -1661,53 +3105,103 @@ export class FileExplorerProvider implements vscode.TreeDataProvider<FileItem>,
     }
 
     private async moveItem(sourcePath: string, targetPath: string): Promise<void> {
+        await this.movePath(sourcePath, targetPath);
+        this.recordUndo('move', sourcePath, targetPath);
+    }
+
+    private async movePath(sourcePath: string, targetPath: string): Promise<void> {
         if (!this.axiosInstance) {
             throw new Error('Not connected to Jupyter Server');
         }
 
+        // Jupyter Server API expects paths without leading slashes for the API endpoint
+        // but the source path in the URL should match exactly how it's stored
+        const sourcePathClean = sourcePath.startsWith('/') ? sourcePath.substring(1) : sourcePath;
+        const targetPathClean = targetPath.startsWith('/') ? targetPath.substring(1) : targetPath;
+        const apiUrl = `api/contents/${sourcePathClean}`;
+
+        console.log(`Attempting to move: ${sourcePath} -> ${targetPath}`);
+
+        let response: AxiosResponse;
         try {
-            console.log(`Attempting to move: ${sourcePath} -> ${targetPath}`);
-            
-            // Jupyter Server API expects paths without leading slashes for the API endpoint
-            // but the source path in the URL should match exactly how it's stored
-            const sourcePathClean = sourcePath.startsWith('/') ? sourcePath.substring(1) : sourcePath;
-            const targetPathClean = targetPath.startsWith('/') ? targetPath.substring(1) : targetPath;
-            
-            const apiUrl = `api/contents/${sourcePathClean}`;
-            
-            console.log(`API URL: ${this.jupyterServerUrl}${apiUrl}`);
-            console.log(`Request body path: ${targetPathClean}`);
-            
-            const response = await this.axiosInstance.patch(apiUrl, {
+            response = await this.axiosInstance.patch(apiUrl, {
                 path: targetPathClean
             });
-
-            console.log(`Successfully moved ${sourcePath} to ${targetPath}`, response.status);
-            
         } catch (error: any) {
             console.error('Move operation failed:', error);
-            
-            if (error.response) {
-                console.error('Response status:', error.response.status);
-                console.error('Response data:', error.response.data);
-                console.error('Request URL:', error.config?.url);
-                console.error('Request data:', error.config?.data);
-                
-                // More specific error handling
-                if (error.response.status === 404) {
-                    throw new Error(`File not found: The source file "${sourcePath}" does not exist on the server.`);
-                } else if (error.response.status === 409) {
-                    throw new Error(`Conflict: A file already exists at "${targetPath}".`);
-                } else {
-                    throw new Error(`Move failed: ${error.response.status} - ${error.response.data?.message || 'Unknown server error'}`);
-                }
-            } else {
+            if (!error.response) {
                 throw new Error(`Move failed: ${error.message}`);
             }
+            response = error.response;
         }
+
+        // The axios instance returns 4xx responses instead of throwing
+        if (response.status === 404) {
+            throw new Error(`File not found: The source file "${sourcePath}" does not exist on the server.`);
+        } else if (response.status === 409) {
+            throw new Error(`Conflict: A file already exists at "${targetPath}".`);
+        } else if (response.status >= 400) {
+            console.error('Response data:', response.data);
+            throw new Error(`Move failed: ${response.status} - ${response.data?.message || 'Unknown server error'}`);
+        }
+
+        console.log(`Successfully moved ${sourcePath} to ${targetPath}`, response.status);
+    }
+
+    private recordUndo(kind: UndoEntry['kind'], from: string, to: string, trashEntry?: TrashEntry, overwritten?: TrashEntry): void {
+        this.undoStack.push({ kind, from: from.replace(/^\/+/, ''), to: to.replace(/^\/+/, ''), trashEntry, overwritten, time: Date.now() });
+        if (this.undoStack.length > this.maxUndoEntries) {
+            this.undoStack.shift();
+        }
+    }
+
+    /**
+     * When the last undoable operation happened, so the most recent one across connections can be undone.
+     */
+    public get lastUndoTime(): number {
+        return this.undoStack.length > 0 ? this.undoStack[this.undoStack.length - 1].time : 0;
     }
 
-    private async uploadSingleFile(localFilePath: string, remotePath: string): Promise<void> {
+    async undo(): Promise<void> {
+        const entry = this.undoStack.pop();
+        if (!entry) {
+            vscode.window.showInformationMessage('Nothing to undo.');
+            return;
+        }
+        if (!this.ensureConnected()) {
+            this.undoStack.push(entry);
+            return;
+        }
+
+        const name = entry.from.split('/').pop();
+        try {
+            let restoredPath = entry.from;
+            if (entry.kind === 'delete') {
+                restoredPath = await this.trash.restore(entry.trashEntry!);
+            } else {
+                await this.movePath(entry.to, entry.from);
+                if (entry.overwritten) {
+                    await this.trash.restore(entry.overwritten);
+                }
+            }
+
+            this.invalidateCacheForPath(entry.to);
+            this.invalidateCacheForPath(restoredPath);
+            this._emitter.fire([
+                { type: entry.overwritten ? vscode.FileChangeType.Changed : vscode.FileChangeType.Deleted, uri: this.toRemoteUri(entry.to) },
+                { type: vscode.FileChangeType.Created, uri: this.toRemoteUri(restoredPath) }
+            ]);
+            this.refresh();
+
+            const action = entry.kind === 'delete' ? 'delete of' : entry.kind === 'rename' ? 'rename of' : 'move of';
+            vscode.window.setStatusBarMessage(`Undid ${action} ${name}`, 3000);
+        } catch (error) {
+            console.error('Undo failed:', error);
+            vscode.window.showErrorMessage(`Failed to undo the ${entry.kind} of ${name}: ${error instanceof Error ? error.message : error}`);
+        }
+    }
+
+    public async uploadSingleFile(localFilePath: string, remotePath: string): Promise<void> {
         if (!this.axiosInstance) {
             throw new Error('Not connected to Jupyter Server');
         }
@@ -1722,10 +3216,18 @@ export class FileExplorerProvider implements vscode.TreeDataProvider<FileItem>,
             console.log(`Clean target path: ${cleanTargetPath}`);
             console.log(`API URL will be: api/contents/${cleanTargetPath}`);
             
+            // Large files are streamed from disk in chunks instead of being read into memory
+            const chunkSize = this.getConfig().get<number>('uploadChunkSize', 5) * 1024 * 1024;
+            const fileStat = await fs.promises.stat(localFilePath);
+            if (fileStat.size > chunkSize) {
+                await this.uploadFileInChunks(localFilePath, cleanTargetPath, fileStat.size, chunkSize);
+                return;
+            }
+
             const fileContent = await fs.promises.readFile(localFilePath);
             
             // Determine if file is binary or text
-            const isBinary = this.isBinaryFile(localFilePath);
+            const isBinary = this.isBinaryFile(localFilePath) || !this.isValidUtf8(fileContent);
             console.log(`File is binary: ${isBinary}`);
             
             const apiUrl = `api/contents/${cleanTargetPath}`;
@@ -1742,10 +3244,13 @@ export class FileExplorerProvider implements vscode.TreeDataProvider<FileItem>,
                 contentLength: requestData.content.length
             });
             
-            const response = await this.axiosInstance.put(apiUrl, requestData);
+            const response = this.ensureSuccess(await this.axiosInstance.put(apiUrl, requestData));
             console.log(`Successfully uploaded: ${fileName}`, response.status);
             
         } catch (error: any) {
+            if (error instanceof vscode.CancellationError) {
+                throw error;
+            }
             console.error('Upload failed:', error);
             console.error('Error details:', {
                 message: error.message,
@@ -1759,6 +3264,98 @@ export class FileExplorerProvider implements vscode.TreeDataProvider<FileItem>,
         }
     }
 
+    private async uploadFileInChunks(localFilePath: string, cleanTargetPath: string, totalSize: number, chunkSize: number): Promise<void> {
+        const fileName = path.basename(localFilePath);
+        // Chunks are appended to a temporary file, so a file being replaced stays intact until
+        // the upload is complete
+        const partialPath = `${cleanTargetPath}.uploading`;
+        const apiUrl = `api/contents/${partialPath}`;
+
+        await vscode.window.withProgress({
+            location: vscode.ProgressLocation.Notification,
+            title: `Uploading ${fileName}`,
+            cancellable: true
+        }, async (progress, token) => {
+            const handle = await fs.promises.open(localFilePath, 'r');
+            const buffer = Buffer.alloc(chunkSize);
+            const startTime = Date.now();
+            let bytesSent = 0;
+            let chunkNumber = 1;
+
+            // Also abort the chunk in flight, which can take a while at large chunk sizes
+            const controller = new AbortController();
+            const cancelListener = token.onCancellationRequested(() => controller.abort());
+
+            try {
+                while (bytesSent < totalSize) {
+                    if (token.isCancellationRequested) {
+                        throw new vscode.CancellationError();
+                    }
+                    if (!this.axiosInstance) {
+                        throw new Error('Not connected to Jupyter Server');
+                    }
+
+                    const { bytesRead } = await handle.read(buffer, 0, chunkSize, bytesSent);
+                    if (bytesRead === 0) {
+                        throw new Error(`${fileName} changed size while uploading`);
+                    }
+                    const isLastChunk = bytesSent + bytesRead >= totalSize;
+
+                    // Contents API chunk protocol: 1..n for each chunk, -1 marks the final one
+                    const response = await this.axiosInstance.put(apiUrl, {
+                        type: 'file',
+                        format: 'base64',
+                        chunk: isLastChunk ? -1 : chunkNumber,
+                        content: buffer.subarray(0, bytesRead).toString('base64')
+                    }, { signal: controller.signal });
+                    this.ensureSuccess(response);
+
+                    bytesSent += bytesRead;
+                    chunkNumber++;
+
+                    const elapsed = Date.now() - startTime;
+                    const remaining = elapsed > 0 ? (totalSize - bytesSent) / (bytesSent / elapsed) : 0;
+                    progress.report({
+                        increment: (bytesRead / totalSize) * 100,
+                        message: `${formatFileSize(bytesSent)} of ${formatFileSize(totalSize)}, ETA ${formatDuration(remaining)}`
+                    });
+                }
+                console.log(`Successfully uploaded ${fileName} in ${chunkNumber - 1} chunk(s)`);
+            } catch (error) {
+                if (bytesSent > 0 && this.axiosInstance) {
+                    // Don't leave a truncated file behind on the server
+                    console.log(`Removing partial upload: ${partialPath}`);
+                    await this.axiosInstance.delete(apiUrl).catch(cleanupError => {
+                        console.warn(`Failed to remove partial upload ${partialPath}:`, cleanupError);
+                    });
+                }
+                throw token.isCancellationRequested ? new vscode.CancellationError() : error;
+            } finally {
+                cancelListener.dispose();
+                await handle.close();
+            }
+        });
+
+        await this.moveUploadIntoPlace(partialPath, cleanTargetPath);
+    }
+
+    private async moveUploadIntoPlace(partialPath: string, cleanTargetPath: string): Promise<void> {
+        if (!this.axiosInstance) {
+            throw new Error('Not connected to Jupyter Server');
+        }
+
+        try {
+            // Renaming onto an existing file fails, so the file being replaced is deleted first
+            const existing = await this.axiosInstance.get(`api/contents/${cleanTargetPath}?content=0`);
+            if (existing.status < 400) {
+                this.ensureSuccess(await this.axiosInstance.delete(`api/contents/${cleanTargetPath}`));
+            }
+            this.ensureSuccess(await this.axiosInstance.patch(`api/contents/${partialPath}`, { path: cleanTargetPath }));
+        } catch (error) {
+            throw new Error(`The upload finished but could not be renamed to ${path.basename(cleanTargetPath)}. It is saved as ${partialPath}: ${error instanceof Error ? error.message : error}`);
+        }
+    }
+
     private async uploadFolderRecursive(localFolderPath: string, remotePath: string): Promise<void> {
         if (!this.axiosInstance) {
             throw new Error('Not connected to Jupyter Server');
@@ -1797,6 +3394,9 @@ export class FileExplorerProvider implements vscode.TreeDataProvider<FileItem>,
             }
             
         } catch (error: any) {
+            if (error instanceof vscode.CancellationError) {
+                throw error;
+            }
             console.error('Folder upload failed:', error);
             console.error('Folder upload error details:', {
                 message: error.message,
@@ -1810,7 +3410,7 @@ export class FileExplorerProvider implements vscode.TreeDataProvider<FileItem>,
         }
     }
 
-    private isBinaryFile(filePath: string): boolean {
+    public isBinaryFile(filePath: string): boolean {
         const ext = path.extname(filePath).toLowerCase();
         const binaryExtensions = [
             '.jpg', '.jpeg', '.png', '.gif', '.bmp', '.ico', '.tiff', '.webp',
@@ -1819,7 +3419,8 @@ export class FileExplorerProvider implements vscode.TreeDataProvider<FileItem>,
             '.exe', '.dll', '.so', '.dylib',
             '.mp3', '.mp4', '.avi', '.mov', '.wav', '.flac',
             '.bin', '.dat', '.db', '.sqlite',
-            '.woff', '.woff2', '.ttf', '.otf'
+            '.woff', '.woff2', '.ttf', '.otf',
+            '.parquet', '.feather', '.pkl', '.pickle', '.npy', '.npz', '.h5', '.hdf5'
         ];
         return binaryExtensions.includes(ext);
     }
@@ -1833,7 +3434,8 @@ export class FileItem extends vscode.TreeItem {
         public readonly label: string,
         public readonly collapsible: boolean,
         public readonly uri: string,
-        fileInfo?: any
+        fileInfo?: any,
+        public readonly connectionId: string = ''
     ) {
         super(label, collapsible ? vscode.TreeItemCollapsibleState.Collapsed : vscode.TreeItemCollapsibleState.None);
         
@@ -1845,18 +3447,30 @@ export class FileItem extends vscode.TreeItem {
         
         this.tooltip = this.buildTooltip();
         this.description = this.buildDescription();
-        this.contextValue = collapsible ? 'directory' : 'file';
+        this.contextValue = collapsible ? 'directory' : FileItem.getFileContext(label);
         this.iconPath = this.getIcon();
 
         if (!collapsible) {
             this.command = {
                 command: 'jupyterFileExplorer.openFile',
                 title: 'Open File',
-                arguments: [this.uri]
+                arguments: [this.uri, this.connectionId]
             };
         }
     }
     
+    // Scripts and notebooks get their own context values so menus can offer running them
+    private static getFileContext(fileName: string): string {
+        switch (path.extname(fileName).toLowerCase()) {
+            case '.py':
+                return 'file.python';
+            case '.ipynb':
+                return 'file.notebook';
+            default:
+                return 'file';
+        }
+    }
+
     public updateMetadata(fileInfo: any): void {
         this.fileSize = fileInfo.size;
         this.lastModified = fileInfo.last_modified ? new Date(fileInfo.last_modified) : undefined;
@@ -1871,7 +3485,7 @@ export class FileItem extends vscode.TreeItem {
             tooltip += ' (Directory)';
         } else {
             if (this.fileSize !== undefined) {
-                tooltip += `\nSize: ${this.formatFileSize(this.fileSize)}`;
+                tooltip += `\nSize: ${formatFileSize(this.fileSize)}`;
             }
             
             if (this.lastModified) {
@@ -1898,7 +3512,7 @@ export class FileItem extends vscode.TreeItem {
         
         // Add file size if available
         if (this.fileSize !== undefined) {
-            description += description ? ` • ${this.formatFileSize(this.fileSize)}` : this.formatFileSize(this.fileSize);
+            description += description ? ` • ${formatFileSize(this.fileSize)}` : formatFileSize(this.fileSize);
         }
         
         return description;
@@ -2001,23 +3615,28 @@ export class FileItem extends vscode.TreeItem {
                 return new vscode.ThemeIcon('file', iconColor || new vscode.ThemeColor('charts.gray'));
         }
     }
-    
-    private formatFileSize(bytes: number): string {
-        if (bytes === 0) return '0 B';
-        
-        const k = 1024;
-        const sizes = ['B', 'KB', 'MB', 'GB'];
-        const i = Math.floor(Math.log(bytes) / Math.log(k));
-        
-        return parseFloat((bytes / Math.pow(k, i)).toFixed(1)) + ' ' + sizes[i];
-    }
 }
 
 export class JupyterContentProvider implements vscode.TextDocumentContentProvider {
-    constructor(private fileExplorerProvider: FileExplorerProvider) {}
+    constructor(private resolveProvider: (uri: vscode.Uri) => FileExplorerProvider | undefined) {}
 
     async provideTextDocumentContent(uri: vscode.Uri, token: vscode.CancellationToken): Promise<string> {
-        // Leverage the existing fetchFileContent method with caching and optimizations
-        return this.fileExplorerProvider.fetchFileContent(uri.path.slice(1));
+        const fileExplorerProvider = this.resolveProvider(uri);
+        if (!fileExplorerProvider) {
+            throw new Error(`Not connected to ${uri.authority}`);
+        }
+
+        if (uri.scheme === 'jupyter-remote-checkpoint') {
+            const checkpointContent = fileExplorerProvider.getCheckpointContent(uri);
+            if (checkpointContent === undefined) {
+                throw new Error('Checkpoint content is no longer available. Run "Compare with Checkpoint" again.');
+            }
+            return checkpointContent;
+        }
+
+        // Read the raw bytes so the text matches what an editor on the same file shows,
+        // without marking this version as the one the editor's buffer is based on
+        const content = await fileExplorerProvider.fetchFileBytes(uri.path.slice(1), false);
+        return Buffer.from(content).toString('utf8');
     }
 }
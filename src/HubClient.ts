@@ -0,0 +1,247 @@
+import * as vscode from 'vscode';
+import axios, { AxiosInstance } from 'axios';
+
+export interface HubServer {
+    name: string;
+    ready: boolean;
+    pending: string | null;
+    url: string;
+    progress_url?: string;
+    started?: string | null;
+    last_activity?: string | null;
+}
+
+export interface HubUser {
+    name: string;
+    server?: string | null;
+    pending?: string | null;
+    servers?: { [serverName: string]: HubServer };
+}
+
+/**
+ * Minimal client for the JupyterHub REST API (/hub/api), used to start, stop and
+ * wait for a user's single-user servers before connecting to them.
+ */
+export class HubClient {
+    private axiosInstance: AxiosInstance;
+    private hubUrl: string;
+
+    constructor(hubUrl: string, private username: string, token: string) {
+        this.hubUrl = hubUrl.endsWith('/') ? hubUrl : hubUrl + '/';
+        this.axiosInstance = axios.create({
+            baseURL: this.hubUrl,
+            headers: {
+                'Authorization': `token ${token}`
+            },
+            timeout: 30000,
+            validateStatus: (status) => status < 500
+        });
+    }
+
+    async getUser(): Promise<HubUser> {
+        // include_stopped_servers (JupyterHub 3+) also lists named servers that are not running
+        const response = await this.axiosInstance.get(`hub/api/users/${encodeURIComponent(this.username)}`, {
+            params: { include_stopped_servers: 1 }
+        });
+        this.ensureSuccess(response, `Failed to read JupyterHub user ${this.username}`);
+        return response.data as HubUser;
+    }
+
+    async getServer(serverName: string = ''): Promise<HubServer | undefined> {
+        const user = await this.getUser();
+        if (user.servers) {
+            return user.servers[serverName];
+        }
+
+        // Tokens without the read:servers scope only see the default server summary
+        if (serverName === '' && (user.server || user.pending)) {
+            return {
+                name: '',
+                ready: !!user.server && !user.pending,
+                pending: user.pending || null,
+                url: user.server || ''
+            };
+        }
+        return undefined;
+    }
+
+    async listServers(): Promise<HubServer[]> {
+        const user = await this.getUser();
+        const servers = user.servers ? Object.keys(user.servers).map(name => ({ ...user.servers![name], name })) : [];
+
+        // The default server is always available to pick, even when it is stopped
+        if (!servers.some(server => server.name === '')) {
+            servers.push({ name: '', ready: !!user.server && !user.pending, pending: user.pending || null, url: user.server || '' });
+        }
+        return servers.sort((a, b) => a.name.localeCompare(b.name));
+    }
+
+    /**
+     * Returns the absolute URL of a user's server, which is what FileExplorerProvider connects to.
+     */
+    async getServerUrl(serverName: string = ''): Promise<string> {
+        const server = await this.getServer(serverName);
+        if (server?.url) {
+            return new URL(server.url, this.hubUrl).href;
+        }
+
+        const user = encodeURIComponent(this.username);
+        const serverPath = serverName ? `user/${user}/${encodeURIComponent(serverName)}/` : `user/${user}/`;
+        return new URL(serverPath, this.hubUrl).href;
+    }
+
+    async deleteServer(serverName: string): Promise<void> {
+        await this.stopServer(serverName, true);
+    }
+
+    async ensureServerRunning(serverName: string = ''): Promise<void> {
+        const server = await this.getServer(serverName);
+        if (server?.ready) {
+            return;
+        }
+
+        const label = serverName ? `server '${serverName}'` : 'server';
+        await vscode.window.withProgress({
+            location: vscode.ProgressLocation.Notification,
+            title: `Starting your JupyterHub ${label}`,
+            cancellable: true
+        }, async (progress, token) => {
+            if (server?.pending === 'stop') {
+                progress.report({ message: 'Waiting for the server to finish stopping...' });
+                await this.waitForServer(serverName, s => !s || !s.pending, token);
+            }
+
+            if (server?.pending !== 'spawn') {
+                await this.startServer(serverName);
+            }
+
+            await this.followSpawnProgress(serverName, progress, token);
+            await this.waitForServer(serverName, s => !!s && s.ready, token);
+        });
+    }
+
+    async startServer(serverName: string = ''): Promise<void> {
+        const response = await this.axiosInstance.post(this.serverApiPath(serverName));
+        // 201: started, 202: spawn pending, 400: already running
+        if (response.status === 400 && /already running/i.test(response.data?.message || '')) {
+            return;
+        }
+        this.ensureSuccess(response, 'Failed to start server');
+    }
+
+    async stopServer(serverName: string = '', remove: boolean = false): Promise<void> {
+        const response = await this.axiosInstance.delete(this.serverApiPath(serverName), {
+            data: remove ? { remove: true } : undefined
+        });
+        this.ensureSuccess(response, 'Failed to stop server');
+
+        // 202 means the hub is still stopping it
+        if (response.status === 202) {
+            await this.waitForServer(serverName, s => !s || (!s.ready && !s.pending));
+        }
+    }
+
+    private serverApiPath(serverName: string): string {
+        const user = encodeURIComponent(this.username);
+        return serverName
+            ? `hub/api/users/${user}/servers/${encodeURIComponent(serverName)}`
+            : `hub/api/users/${user}/server`;
+    }
+
+    private async followSpawnProgress(
+        serverName: string,
+        progress: vscode.Progress<{ message?: string; increment?: number }>,
+        token: vscode.CancellationToken
+    ): Promise<void> {
+        const controller = new AbortController();
+        const cancelListener = token.onCancellationRequested(() => controller.abort());
+
+        try {
+            const response = await this.axiosInstance.get(`${this.serverApiPath(serverName)}/progress`, {
+                responseType: 'stream',
+                headers: { 'Accept': 'text/event-stream' },
+                signal: controller.signal,
+                timeout: 0
+            });
+            if (response.status >= 400) {
+                // Older hubs have no progress API, waitForServer polls instead
+                response.data.destroy();
+                return;
+            }
+
+            let reported = 0;
+            await new Promise<void>((resolve, reject) => {
+                let buffer = '';
+                response.data.on('data', (chunk: Buffer) => {
+                    buffer += chunk.toString('utf8');
+                    const lines = buffer.split('\n');
+                    buffer = lines.pop() || '';
+
+                    for (const line of lines) {
+                        if (!line.startsWith('data:')) {
+                            continue;
+                        }
+                        let event: any;
+                        try {
+                            event = JSON.parse(line.substring(5).trim());
+                        } catch (error) {
+                            continue;
+                        }
+
+                        if (typeof event.progress === 'number' && event.progress > reported) {
+                            progress.report({ increment: event.progress - reported, message: event.message });
+                            reported = event.progress;
+                        } else if (event.message) {
+                            progress.report({ message: event.message });
+                        }
+
+                        if (event.failed) {
+                            response.data.destroy();
+                            reject(new Error(event.message || 'Server failed to start'));
+                            return;
+                        }
+                        if (event.ready) {
+                            response.data.destroy();
+                            resolve();
+                            return;
+                        }
+                    }
+                });
+                response.data.on('end', () => resolve());
+                response.data.on('error', (error: Error) => reject(error));
+            });
+        } catch (error) {
+            if (token.isCancellationRequested) {
+                throw new vscode.CancellationError();
+            }
+            throw error;
+        } finally {
+            cancelListener.dispose();
+        }
+    }
+
+    private async waitForServer(
+        serverName: string,
+        condition: (server: HubServer | undefined) => boolean,
+        token?: vscode.CancellationToken,
+        timeout: number = 5 * 60 * 1000
+    ): Promise<void> {
+        const deadline = Date.now() + timeout;
+        while (Date.now() < deadline) {
+            if (token?.isCancellationRequested) {
+                throw new vscode.CancellationError();
+            }
+            if (condition(await this.getServer(serverName))) {
+                return;
+            }
+            await new Promise(resolve => setTimeout(resolve, 2000));
+        }
+        throw new Error(`Timed out waiting for JupyterHub server${serverName ? ` '${serverName}'` : ''}`);
+    }
+
+    private ensureSuccess(response: any, operation: string): void {
+        if (response.status >= 400) {
+            throw new Error(`${operation}: ${response.status} - ${response.data?.message || response.statusText}`);
+        }
+    }
+}
@@ -0,0 +1,137 @@
+import * as vscode from 'vscode';
+import axios from 'axios';
+import * as crypto from 'crypto';
+
+/**
+ * Interactive ways of getting a JupyterHub API token without minting one by hand:
+ * an OAuth authorization-code flow redirected back into VS Code through its URI
+ * handler, or opening the hub's token page and pasting the token it shows.
+ */
+export class HubLogin implements vscode.UriHandler {
+    private pendingLogins = new Map<string, (callbackUri: vscode.Uri) => void>();
+
+    constructor(private extensionId: string, private secrets: vscode.SecretStorage) {}
+
+    handleUri(uri: vscode.Uri): void {
+        if (uri.path !== '/oauth-callback') {
+            return;
+        }
+
+        const state = new URLSearchParams(uri.query).get('state') || '';
+        const resolve = this.pendingLogins.get(state);
+        if (resolve) {
+            this.pendingLogins.delete(state);
+            resolve(uri);
+        } else {
+            console.warn('Ignoring OAuth callback with unknown state');
+        }
+    }
+
+    async login(hubUrl: string, oauthClientId?: string): Promise<string | undefined> {
+        const methods = [
+            { label: '$(link-external) Open the JupyterHub token page', description: 'Request a token in the browser and paste it here', method: 'tokenPage' }
+        ];
+        if (oauthClientId) {
+            methods.unshift({ label: '$(sign-in) Sign in with the browser', description: 'OAuth login, no token to copy', method: 'oauth' });
+        }
+
+        const picked = methods.length === 1 ? methods[0] : await vscode.window.showQuickPick(methods, {
+            placeHolder: 'How do you want to sign in to JupyterHub?'
+        });
+        if (!picked) {
+            return undefined;
+        }
+
+        const baseUrl = hubUrl.endsWith('/') ? hubUrl : hubUrl + '/';
+        return picked.method === 'oauth'
+            ? this.loginWithOAuth(baseUrl, oauthClientId!)
+            : this.loginWithTokenPage(baseUrl);
+    }
+
+    private async loginWithTokenPage(hubUrl: string): Promise<string | undefined> {
+        await vscode.env.openExternal(vscode.Uri.parse(`${hubUrl}hub/token`));
+
+        return vscode.window.showInputBox({
+            prompt: 'Sign in to JupyterHub in your browser, click "Request new API token", then paste the token here',
+            password: true,
+            ignoreFocusOut: true
+        });
+    }
+
+    private async loginWithOAuth(hubUrl: string, clientId: string): Promise<string | undefined> {
+        // JupyterHub only issues tokens to confidential clients, the secret comes from the hub admin
+        const secretKey = `jupyterFileExplorer.oauthClientSecret.${clientId}`;
+        let clientSecret = await this.secrets.get(secretKey);
+        if (!clientSecret) {
+            clientSecret = await vscode.window.showInputBox({
+                prompt: `Enter the OAuth client secret for '${clientId}' (provided by your JupyterHub administrator)`,
+                password: true,
+                ignoreFocusOut: true
+            });
+            if (!clientSecret) {
+                return undefined;
+            }
+        }
+
+        const callbackUri = await vscode.env.asExternalUri(
+            vscode.Uri.parse(`${vscode.env.uriScheme}://${this.extensionId}/oauth-callback`)
+        );
+        const redirectUri = callbackUri.toString(true);
+        const state = crypto.randomBytes(16).toString('hex');
+
+        const authorizeUrl = `${hubUrl}hub/api/oauth2/authorize?` + new URLSearchParams({
+            client_id: clientId,
+            redirect_uri: redirectUri,
+            response_type: 'code',
+            state
+        }).toString();
+
+        const code = await vscode.window.withProgress({
+            location: vscode.ProgressLocation.Notification,
+            title: 'Waiting for JupyterHub sign-in in your browser...',
+            cancellable: true
+        }, async (progress, token) => {
+            let cancelListener: vscode.Disposable | undefined;
+            const callback = new Promise<vscode.Uri | undefined>(resolve => {
+                this.pendingLogins.set(state, resolve);
+                cancelListener = token.onCancellationRequested(() => resolve(undefined));
+                setTimeout(() => resolve(undefined), 5 * 60 * 1000);
+            });
+
+            await vscode.env.openExternal(vscode.Uri.parse(authorizeUrl, true));
+            const result = await callback;
+            cancelListener?.dispose();
+            this.pendingLogins.delete(state);
+
+            const params = result ? new URLSearchParams(result.query) : undefined;
+            if (params?.get('error')) {
+                throw new Error(`JupyterHub sign-in failed: ${params.get('error_description') || params.get('error')}`);
+            }
+            return params?.get('code') || undefined;
+        });
+
+        if (!code) {
+            return undefined;
+        }
+
+        const response = await axios.post(`${hubUrl}hub/api/oauth2/token`, new URLSearchParams({
+            grant_type: 'authorization_code',
+            code,
+            client_id: clientId,
+            client_secret: clientSecret,
+            redirect_uri: redirectUri
+        }).toString(), {
+            headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+            timeout: 30000,
+            validateStatus: (status) => status < 500
+        });
+
+        if (response.status >= 400 || !response.data?.access_token) {
+            throw new Error(`JupyterHub token exchange failed: ${response.status} - ${response.data?.error_description || response.data?.error || response.statusText}`);
+        }
+
+        // Only remember the client secret once it has proven to work
+        await this.secrets.store(secretKey, clientSecret);
+        return response.data.access_token as string;
+    }
+}
@@ -0,0 +1,208 @@
+import * as vscode from 'vscode';
+import { AxiosInstance } from 'axios';
+import { ConnectionManager } from './ConnectionManager';
+
+interface KernelModel {
+    id: string;
+    name: string;
+    last_activity?: string;
+    execution_state?: string;
+    connections?: number;
+}
+
+interface SessionModel {
+    id: string;
+    path: string;
+    name?: string;
+    type?: string;
+    kernel: KernelModel | null;
+}
+
+export class KernelsProvider implements vscode.TreeDataProvider<KernelItem> {
+    private _onDidChangeTreeData: vscode.EventEmitter<KernelItem | undefined | null> = new vscode.EventEmitter<KernelItem | undefined | null>();
+    readonly onDidChangeTreeData: vscode.Event<KernelItem | undefined | null> = this._onDidChangeTreeData.event;
+
+    constructor(private connectionManager: ConnectionManager) {}
+
+    // Kernels of the active connection are listed
+    private get fileExplorerProvider() {
+        return this.connectionManager.getActiveProvider();
+    }
+
+    refresh(): void {
+        this._onDidChangeTreeData.fire(null);
+    }
+
+    getTreeItem(element: KernelItem): vscode.TreeItem {
+        return element;
+    }
+
+    async getChildren(element?: KernelItem): Promise<KernelItem[]> {
+        const axiosInstance = this.fileExplorerProvider.getAxiosInstance();
+        if (element || !axiosInstance) {
+            return [];
+        }
+
+        try {
+            const [sessionsResponse, kernelsResponse] = await Promise.all([
+                axiosInstance.get('api/sessions'),
+                axiosInstance.get('api/kernels')
+            ]);
+
+            const sessions: SessionModel[] = sessionsResponse.status < 400 && Array.isArray(sessionsResponse.data) ? sessionsResponse.data : [];
+            const kernels: KernelModel[] = kernelsResponse.status < 400 && Array.isArray(kernelsResponse.data) ? kernelsResponse.data : [];
+
+            // Kernels without a session (e.g. started from a console or leaked) are listed on their own
+            const connectionId = this.fileExplorerProvider.connectionId;
+            const items = kernels.map(kernel => {
+                const session = sessions.find(s => s.kernel?.id === kernel.id);
+                return new KernelItem(kernel, connectionId, session);
+            });
+
+            return items.sort((a, b) => a.label.localeCompare(b.label));
+        } catch (error) {
+            console.error('Failed to fetch kernels and sessions:', error);
+            vscode.window.showErrorMessage(`Failed to fetch running kernels: ${error}`);
+            return [];
+        }
+    }
+
+    async interruptKernel(item: KernelItem): Promise<void> {
+        await this.runKernelAction(item, 'interrupt', axiosInstance =>
+            axiosInstance.post(`api/kernels/${item.kernel.id}/interrupt`)
+        );
+    }
+
+    async restartKernel(item: KernelItem): Promise<void> {
+        const result = await vscode.window.showWarningMessage(
+            `Restart the kernel of ${item.label}? All variables will be lost.`,
+            { modal: true },
+            'Restart'
+        );
+        if (result !== 'Restart') {
+            return;
+        }
+
+        await this.runKernelAction(item, 'restart', axiosInstance =>
+            axiosInstance.post(`api/kernels/${item.kernel.id}/restart`)
+        );
+    }
+
+    async shutdownKernel(item: KernelItem): Promise<void> {
+        const result = await vscode.window.showWarningMessage(
+            `Shut down the kernel of ${item.label}?`,
+            { modal: true },
+            'Shut Down'
+        );
+        if (result !== 'Shut Down') {
+            return;
+        }
+
+        // Deleting the session also shuts down its kernel and keeps the server's session list clean
+        await this.runKernelAction(item, 'shut down', axiosInstance => item.session
+            ? axiosInstance.delete(`api/sessions/${item.session.id}`)
+            : axiosInstance.delete(`api/kernels/${item.kernel.id}`)
+        );
+    }
+
+    private async runKernelAction(item: KernelItem, action: string, request: (axiosInstance: AxiosInstance) => Promise<any>): Promise<void> {
+        // The kernel's own server, which is no longer the active one if the selection moved on
+        const axiosInstance = this.connectionManager.getById(item.connectionId)?.getAxiosInstance();
+        if (!axiosInstance) {
+            vscode.window.showErrorMessage('Not connected to Jupyter Server.');
+            return;
+        }
+
+        try {
+            const response = await request(axiosInstance);
+            if (response.status >= 400) {
+                throw new Error(`${response.status} - ${response.data?.message || response.statusText}`);
+            }
+            vscode.window.showInformationMessage(`Kernel of ${item.label}: ${action} requested.`);
+        } catch (error) {
+            console.error(`Failed to ${action} kernel ${item.kernel.id}:`, error);
+            vscode.window.showErrorMessage(`Failed to ${action} kernel of ${item.label}: ${error}`);
+        } finally {
+            this.refresh();
+        }
+    }
+}
+
+export class KernelItem extends vscode.TreeItem {
+    public readonly label: string;
+
+    constructor(
+        public readonly kernel: KernelModel,
+        public readonly connectionId: string,
+        public readonly session?: SessionModel
+    ) {
+        super(session?.path || kernel.name, vscode.TreeItemCollapsibleState.None);
+        this.label = session?.path || kernel.name;
+
+        const state = kernel.execution_state || 'unknown';
+        this.id = `${connectionId}/${kernel.id}`;
+        this.description = this.buildDescription(state);
+        this.tooltip = this.buildTooltip();
+        this.contextValue = 'kernel';
+        this.iconPath = this.getIcon(state);
+    }
+
+    private buildDescription(state: string): string {
+        const parts = [this.kernel.name, state];
+        if (this.kernel.last_activity) {
+            parts.push(`active ${formatTimeAgo(new Date(this.kernel.last_activity))}`);
+        }
+        if (this.kernel.connections !== undefined) {
+            parts.push(`${this.kernel.connections} ${this.kernel.connections === 1 ? 'connection' : 'connections'}`);
+        }
+        return parts.join(' • ');
+    }
+
+    private buildTooltip(): string {
+        let tooltip = this.session ? `${this.session.path}\nKernel: ${this.kernel.name}` : `Kernel: ${this.kernel.name} (no session)`;
+        tooltip += `\nState: ${this.kernel.execution_state || 'unknown'}`;
+
+        if (this.kernel.last_activity) {
+            const lastActivity = new Date(this.kernel.last_activity);
+            tooltip += `\nLast activity: ${lastActivity.toLocaleDateString()} ${lastActivity.toLocaleTimeString()}`;
+        }
+        if (this.kernel.connections !== undefined) {
+            tooltip += `\nConnections: ${this.kernel.connections}`;
+        }
+        tooltip += `\nID: ${this.kernel.id}`;
+
+        return tooltip;
+    }
+
+    private getIcon(state: string): vscode.ThemeIcon {
+        switch (state) {
+            case 'idle':
+                return new vscode.ThemeIcon('circle-outline', new vscode.ThemeColor('charts.green'));
+            case 'busy':
+                return new vscode.ThemeIcon('circle-filled', new vscode.ThemeColor('charts.orange'));
+            case 'starting':
+            case 'restarting':
+                return new vscode.ThemeIcon('loading~spin');
+            case 'dead':
+                return new vscode.ThemeIcon('error', new vscode.ThemeColor('charts.red'));
+            default:
+                return new vscode.ThemeIcon('circle-outline', new vscode.ThemeColor('charts.gray'));
+        }
+    }
+}
+
+function formatTimeAgo(date: Date): string {
+    const seconds = Math.max(0, Math.round((Date.now() - date.getTime()) / 1000));
+    if (seconds < 60) {
+        return 'just now';
+    }
+    const minutes = Math.round(seconds / 60);
+    if (minutes < 60) {
+        return `${minutes} min ago`;
+    }
+    const hours = Math.round(minutes / 60);
+    if (hours < 24) {
+        return `${hours} h ago`;
+    }
+    return date.toLocaleDateString();
+}
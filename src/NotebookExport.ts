@@ -0,0 +1,171 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { FileItem } from './FileExplorer';
+import { ConnectionManager } from './ConnectionManager';
+
+// Names for the exporters that ship with nbconvert; others are listed under their own name
+const EXPORTER_LABELS: { [name: string]: string } = {
+    html: 'HTML',
+    webpdf: 'PDF (via browser)',
+    pdf: 'PDF (via LaTeX)',
+    markdown: 'Markdown',
+    script: 'Executable Script',
+    latex: 'LaTeX',
+    rst: 'reStructuredText',
+    asciidoc: 'AsciiDoc',
+    slides: 'Reveal.js Slides',
+    notebook: 'Notebook',
+    python: 'Python'
+};
+
+const EXTENSIONS: { [mimetype: string]: string } = {
+    'text/html': '.html',
+    'application/pdf': '.pdf',
+    'text/markdown': '.md',
+    'text/x-python': '.py',
+    'application/x-tex': '.tex',
+    'text/restructuredtext': '.rst',
+    'text/asciidoc': '.asciidoc',
+    'application/x-ipynb+json': '.ipynb',
+    'application/zip': '.zip'
+};
+
+/**
+ * Exports remote notebooks with the server's nbconvert endpoint, so reports come out the same
+ * way as from JupyterLab's "Save and Export Notebook As".
+ */
+export class NotebookExporter {
+    constructor(private connectionManager: ConnectionManager) {}
+
+    async exportNotebook(target?: FileItem | vscode.Uri): Promise<void> {
+        const uri = target instanceof vscode.Uri ? target : target ? undefined : this.activeRemoteNotebook();
+        const provider = target instanceof FileItem ? this.connectionManager.providerFor(target) : uri && this.connectionManager.providerForUri(uri);
+        const notebookPath = target instanceof FileItem ? target.uri : uri?.path.replace(/^\//, '');
+        if (!provider || !notebookPath || path.extname(notebookPath).toLowerCase() !== '.ipynb') {
+            vscode.window.showErrorMessage('Select a remote notebook to export.');
+            return;
+        }
+
+        const axiosInstance = provider.getAxiosInstance();
+        if (!axiosInstance) {
+            vscode.window.showErrorMessage('Not connected to Jupyter Server.');
+            return;
+        }
+
+        const notebookName = path.basename(notebookPath);
+        try {
+            const formatsResponse = await axiosInstance.get('api/nbconvert');
+            if (formatsResponse.status >= 400) {
+                throw new Error(`${formatsResponse.status} - ${formatsResponse.data?.message || formatsResponse.statusText}`);
+            }
+
+            const exporters: { [name: string]: { output_mimetype?: string } } = formatsResponse.data || {};
+            const known = Object.keys(EXPORTER_LABELS);
+            const formats = Object.keys(exporters).sort((a, b) => {
+                const rank = (name: string) => known.indexOf(name) < 0 ? known.length : known.indexOf(name);
+                return rank(a) - rank(b) || a.localeCompare(b);
+            });
+            if (formats.length === 0) {
+                throw new Error('The server has no nbconvert exporters');
+            }
+
+            const format = await vscode.window.showQuickPick(
+                formats.map(name => ({ label: EXPORTER_LABELS[name] || name, description: name, name })),
+                { placeHolder: `Export ${notebookName} as` }
+            );
+            if (!format) {
+                return;
+            }
+
+            const destination = await vscode.window.showQuickPick([
+                { label: '$(desktop-download) Save to This Computer...', local: true },
+                { label: '$(cloud-upload) Save Next to the Notebook on the Server', local: false }
+            ], { placeHolder: 'Where should the export be saved?' });
+            if (!destination) {
+                return;
+            }
+
+            // The server converts its own copy, so unsaved edits are saved first
+            await provider.saveIfDirty(uri || provider.toRemoteUri(notebookPath));
+
+            const exported = await vscode.window.withProgress({
+                location: vscode.ProgressLocation.Notification,
+                title: `Exporting ${notebookName} as ${format.label}`
+            }, async () => {
+                const response = await axiosInstance.get(`nbconvert/${format.name}/${notebookPath}?download=true`, {
+                    responseType: 'arraybuffer',
+                    // Every status is checked below, so failed conversions carry their status
+                    validateStatus: () => true
+                });
+                if (response.status >= 400) {
+                    const message = Buffer.from(response.data).toString('utf8').slice(0, 200) || response.statusText;
+                    throw Object.assign(new Error(`${response.status} - ${message}`), { status: response.status });
+                }
+                return {
+                    content: new Uint8Array(response.data),
+                    fileName: this.exportFileName(response.headers['content-disposition'], notebookName, exporters[format.name]?.output_mimetype)
+                };
+            });
+
+            if (destination.local) {
+                const saveUri = await vscode.window.showSaveDialog({
+                    defaultUri: vscode.Uri.file(exported.fileName),
+                    saveLabel: 'Save Export'
+                });
+                if (!saveUri) {
+                    return;
+                }
+                await vscode.workspace.fs.writeFile(saveUri, exported.content);
+                vscode.window.showInformationMessage(`Exported ${notebookName} to ${saveUri.fsPath}`);
+                return;
+            }
+
+            const targetPath = path.posix.join(path.posix.dirname(notebookPath), exported.fileName);
+            const targetUri = provider.toRemoteUri(targetPath);
+            if (await this.exists(targetUri)) {
+                const choice = await vscode.window.showWarningMessage(
+                    `${exported.fileName} already exists next to the notebook. Replace it?`,
+                    { modal: true },
+                    'Replace'
+                );
+                if (choice !== 'Replace') {
+                    return;
+                }
+            }
+            await vscode.workspace.fs.writeFile(targetUri, exported.content);
+            provider.refresh();
+        } catch (error: any) {
+            console.error(`Failed to export ${notebookPath}:`, error);
+            // Server errors usually mean a converter tool is missing there, e.g. LaTeX for PDF
+            const hint = error.status >= 500 ? ' (the server may be missing a tool this format needs)' : '';
+            vscode.window.showErrorMessage(`Failed to export ${notebookName}: ${error.message || error}${hint}`);
+        }
+    }
+
+    // Prefers the name the server sends, e.g. "report.slides.html" for slides
+    private exportFileName(contentDisposition: string | undefined, notebookName: string, mimetype?: string): string {
+        const match = /filename\*?=(?:utf-8'')?"?([^";]+)"?/i.exec(contentDisposition || '');
+        if (match) {
+            try {
+                return path.basename(decodeURIComponent(match[1]));
+            } catch (error) {
+                return path.basename(match[1]);
+            }
+        }
+        return notebookName.replace(/\.ipynb$/i, '') + ((mimetype && EXTENSIONS[mimetype]) || '.txt');
+    }
+
+    private activeRemoteNotebook(): vscode.Uri | undefined {
+        const uri = vscode.window.activeNotebookEditor?.notebook.uri || vscode.window.activeTextEditor?.document.uri;
+        return uri?.scheme === 'jupyter-remote' ? uri : undefined;
+    }
+
+    private async exists(uri: vscode.Uri): Promise<boolean> {
+        try {
+            await vscode.workspace.fs.stat(uri);
+            return true;
+        } catch (error) {
+            return false;
+        }
+    }
+}
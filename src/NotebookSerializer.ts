@@ -0,0 +1,242 @@
+import * as vscode from 'vscode';
+
+export const REMOTE_NOTEBOOK_TYPE = 'jupyter-remote-notebook';
+
+interface NotebookCell {
+    cell_type: 'code' | 'markdown' | 'raw';
+    id?: string;
+    source: string | string[];
+    metadata?: { [key: string]: any };
+    attachments?: { [key: string]: any };
+    outputs?: NotebookOutput[];
+    execution_count?: number | null;
+}
+
+interface NotebookOutput {
+    output_type: 'stream' | 'display_data' | 'execute_result' | 'error';
+    name?: string;
+    text?: string | string[];
+    data?: { [mime: string]: any };
+    metadata?: { [key: string]: any };
+    execution_count?: number | null;
+    ename?: string;
+    evalue?: string;
+    traceback?: string[];
+}
+
+interface NotebookContent {
+    cells: NotebookCell[];
+    metadata: { [key: string]: any };
+    nbformat: number;
+    nbformat_minor: number;
+}
+
+const STDOUT_MIME = 'application/vnd.code.notebook.stdout';
+const STDERR_MIME = 'application/vnd.code.notebook.stderr';
+const ERROR_MIME = 'application/vnd.code.notebook.error';
+
+/**
+ * Reads and writes nbformat 4 notebooks so remote .ipynb files open in VS Code's notebook
+ * editor without the Jupyter extension. Everything the editor has no place for (notebook
+ * metadata, cell ids, attachments, output metadata) is carried through the cell and
+ * notebook metadata so a save writes it back unchanged.
+ */
+export class RemoteNotebookSerializer implements vscode.NotebookSerializer {
+    deserializeNotebook(content: Uint8Array): vscode.NotebookData {
+        const text = Buffer.from(content).toString('utf8');
+        let notebook: NotebookContent;
+        try {
+            notebook = text.trim() ? JSON.parse(text) : { cells: [], metadata: {}, nbformat: 4, nbformat_minor: 5 };
+        } catch (error) {
+            throw new Error(`Not a valid notebook: ${error}`);
+        }
+
+        const language = notebook.metadata?.language_info?.name || notebook.metadata?.kernelspec?.language || 'python';
+        const cells = (notebook.cells || []).map(cell => this.toCellData(cell, language));
+
+        const data = new vscode.NotebookData(cells);
+        data.metadata = {
+            nbformat: notebook.nbformat || 4,
+            nbformat_minor: notebook.nbformat_minor === undefined ? 5 : notebook.nbformat_minor,
+            metadata: notebook.metadata || {}
+        };
+        return data;
+    }
+
+    serializeNotebook(data: vscode.NotebookData): Uint8Array {
+        const nbformatMinor = data.metadata?.nbformat_minor === undefined ? 5 : data.metadata.nbformat_minor;
+        const notebook: NotebookContent = {
+            cells: data.cells.map(cell => this.fromCellData(cell, nbformatMinor)),
+            metadata: data.metadata?.metadata || {},
+            nbformat: data.metadata?.nbformat || 4,
+            nbformat_minor: nbformatMinor
+        };
+        // Same layout as Jupyter writes, so diffs against files saved from JupyterLab stay small
+        return Buffer.from(JSON.stringify(notebook, null, 1) + '\n', 'utf8');
+    }
+
+    private toCellData(cell: NotebookCell, language: string): vscode.NotebookCellData {
+        const source = joinLines(cell.source);
+        let cellData: vscode.NotebookCellData;
+        if (cell.cell_type === 'markdown') {
+            cellData = new vscode.NotebookCellData(vscode.NotebookCellKind.Markup, source, 'markdown');
+        } else if (cell.cell_type === 'raw') {
+            cellData = new vscode.NotebookCellData(vscode.NotebookCellKind.Code, source, 'raw');
+        } else {
+            cellData = new vscode.NotebookCellData(vscode.NotebookCellKind.Code, source, language);
+            cellData.outputs = (cell.outputs || []).map(output => this.toCellOutput(output));
+            if (typeof cell.execution_count === 'number') {
+                cellData.executionSummary = { executionOrder: cell.execution_count };
+            }
+        }
+
+        cellData.metadata = {
+            id: cell.id,
+            metadata: cell.metadata || {},
+            attachments: cell.attachments
+        };
+        return cellData;
+    }
+
+    private fromCellData(cellData: vscode.NotebookCellData, nbformatMinor: number): NotebookCell {
+        const cellType = cellData.kind === vscode.NotebookCellKind.Markup
+            ? 'markdown'
+            : cellData.languageId === 'raw' ? 'raw' : 'code';
+        const cell: NotebookCell = {
+            cell_type: cellType,
+            metadata: cellData.metadata?.metadata || {},
+            source: splitLines(cellData.value)
+        };
+
+        // Cell ids are required from nbformat 4.5 on
+        const id = cellData.metadata?.id || (nbformatMinor >= 5 ? newCellId() : undefined);
+        if (id) {
+            cell.id = id;
+        }
+        if (cellData.metadata?.attachments && cellType !== 'code') {
+            cell.attachments = cellData.metadata.attachments;
+        }
+        if (cellType === 'code') {
+            cell.outputs = (cellData.outputs || []).map(output => this.fromCellOutput(output));
+            cell.execution_count = cellData.executionSummary?.executionOrder ?? null;
+        }
+        return cell;
+    }
+
+    private toCellOutput(output: NotebookOutput): vscode.NotebookCellOutput {
+        const metadata = {
+            outputType: output.output_type,
+            metadata: output.metadata,
+            executionCount: output.execution_count
+        };
+
+        switch (output.output_type) {
+            case 'stream':
+                return new vscode.NotebookCellOutput([
+                    output.name === 'stderr'
+                        ? vscode.NotebookCellOutputItem.stderr(joinLines(output.text))
+                        : vscode.NotebookCellOutputItem.stdout(joinLines(output.text))
+                ], metadata);
+            case 'error':
+                return new vscode.NotebookCellOutput([
+                    vscode.NotebookCellOutputItem.error({
+                        name: output.ename || 'Error',
+                        message: output.evalue || '',
+                        stack: (output.traceback || []).join('\n')
+                    })
+                ], metadata);
+            default:
+                return new vscode.NotebookCellOutput(
+                    Object.keys(output.data || {}).map(mime => toOutputItem(mime, output.data![mime])),
+                    metadata
+                );
+        }
+    }
+
+    private fromCellOutput(output: vscode.NotebookCellOutput): NotebookOutput {
+        const outputType = output.metadata?.outputType as NotebookOutput['output_type'] | undefined;
+        const streamItem = output.items.find(item => item.mime === STDOUT_MIME || item.mime === STDERR_MIME);
+        const errorItem = output.items.find(item => item.mime === ERROR_MIME);
+
+        if (outputType === 'stream' || (!outputType && streamItem)) {
+            const items = output.items.filter(item => item.mime === STDOUT_MIME || item.mime === STDERR_MIME);
+            return {
+                output_type: 'stream',
+                name: streamItem?.mime === STDERR_MIME ? 'stderr' : 'stdout',
+                text: splitLines(items.map(item => decode(item.data)).join(''))
+            };
+        }
+
+        if (outputType === 'error' || (!outputType && errorItem)) {
+            const error = errorItem ? JSON.parse(decode(errorItem.data)) : {};
+            return {
+                output_type: 'error',
+                ename: error.name || 'Error',
+                evalue: error.message || '',
+                traceback: error.stack ? String(error.stack).split('\n') : []
+            };
+        }
+
+        const data: { [mime: string]: any } = {};
+        output.items.forEach(item => {
+            data[item.mime] = fromOutputItem(item);
+        });
+        const result: NotebookOutput = {
+            output_type: outputType === 'execute_result' ? 'execute_result' : 'display_data',
+            data,
+            metadata: output.metadata?.metadata || {}
+        };
+        if (result.output_type === 'execute_result') {
+            result.execution_count = output.metadata?.executionCount ?? null;
+        }
+        return result;
+    }
+}
+
+function toOutputItem(mime: string, value: any): vscode.NotebookCellOutputItem {
+    if (isJsonMime(mime)) {
+        return vscode.NotebookCellOutputItem.json(value, mime);
+    }
+    // Jupyter stores binary images as base64 text, everything else is plain (possibly split) text
+    if (isBinaryMime(mime)) {
+        return new vscode.NotebookCellOutputItem(Buffer.from(joinLines(value).replace(/\s/g, ''), 'base64'), mime);
+    }
+    return vscode.NotebookCellOutputItem.text(joinLines(value), mime);
+}
+
+function fromOutputItem(item: vscode.NotebookCellOutputItem): any {
+    if (isJsonMime(item.mime)) {
+        return JSON.parse(decode(item.data));
+    }
+    if (isBinaryMime(item.mime)) {
+        return Buffer.from(item.data).toString('base64');
+    }
+    return splitLines(decode(item.data));
+}
+
+function isJsonMime(mime: string): boolean {
+    return mime === 'application/json' || /\+json$/.test(mime);
+}
+
+function isBinaryMime(mime: string): boolean {
+    return mime.startsWith('image/') && mime !== 'image/svg+xml';
+}
+
+function decode(data: Uint8Array): string {
+    return Buffer.from(data).toString('utf8');
+}
+
+function joinLines(value: string | string[] | undefined): string {
+    return Array.isArray(value) ? value.join('') : value || '';
+}
+
+// nbformat keeps multi-line strings as a list of lines, each but the last ending in a newline
+function splitLines(value: string): string[] {
+    const lines = value.split('\n').map(line => line + '\n');
+    const last = lines.pop()!.slice(0, -1);
+    return last ? lines.concat(last) : lines;
+}
+
+function newCellId(): string {
+    return (Math.random().toString(16).slice(2) + '00000000').slice(0, 8);
+}
@@ -0,0 +1,226 @@
+import * as vscode from 'vscode';
+import { ConnectionManager } from './ConnectionManager';
+import { matchesAnyGlob } from './glob';
+
+interface IndexedDirectory {
+    depth: number;
+    files: string[];
+    directories: string[];
+    sizes: { [path: string]: number }; // File sizes in bytes, where the listing has them
+}
+
+/**
+ * In-memory index of the remote file paths, used by "Go to Remote File". The tree is
+ * crawled once per connection; afterwards only directories whose cache entries were
+ * invalidated (by edits, uploads, renames or the file watcher) are listed again.
+ */
+export class RemoteFileIndex {
+    private directories = new Map<string, IndexedDirectory>();
+    private pending: { path: string; depth: number }[] = [];
+    private dirty = new Set<string>();
+    private indexKey: string = '';
+    private invalidationListener: vscode.Disposable;
+
+    constructor(private connectionManager: ConnectionManager) {
+        this.invalidationListener = connectionManager.onDidInvalidatePath(path => this.invalidate(path));
+    }
+
+    // The index follows the active connection and starts over when it changes
+    private get fileExplorerProvider() {
+        return this.connectionManager.getActiveProvider();
+    }
+
+    dispose(): void {
+        this.invalidationListener.dispose();
+    }
+
+    get fileCount(): number {
+        let count = 0;
+        this.directories.forEach(directory => count += directory.files.length);
+        return count;
+    }
+
+    getFiles(): string[] {
+        const files: string[] = [];
+        this.directories.forEach(directory => files.push(...directory.files));
+        return files.sort();
+    }
+
+    getFileSize(path: string): number | undefined {
+        const separator = path.lastIndexOf('/');
+        return this.directories.get(separator === -1 ? '' : path.substring(0, separator))?.sizes[path];
+    }
+
+    async goToRemoteFile(): Promise<void> {
+        if (!this.fileExplorerProvider.getAxiosInstance()) {
+            vscode.window.showErrorMessage('Not connected to Jupyter Server.');
+            return;
+        }
+
+        const quickPick = vscode.window.createQuickPick<vscode.QuickPickItem & { path: string }>();
+        quickPick.placeholder = 'Search files by name on the remote server';
+        quickPick.matchOnDescription = true;
+
+        const tokenSource = new vscode.CancellationTokenSource();
+        const token = tokenSource.token;
+        const showFiles = () => {
+            quickPick.items = this.getFiles().map(path => {
+                const separator = path.lastIndexOf('/');
+                return {
+                    label: separator === -1 ? path : path.substring(separator + 1),
+                    description: separator === -1 ? '' : path.substring(0, separator),
+                    path
+                };
+            });
+        };
+
+        quickPick.onDidAccept(() => {
+            const picked = quickPick.selectedItems[0];
+            quickPick.hide();
+            if (picked) {
+                this.fileExplorerProvider.openFile(picked.path);
+            }
+        });
+        // Closing the picker stops crawling; the next run continues where this one stopped
+        quickPick.onDidHide(() => {
+            tokenSource.cancel();
+            tokenSource.dispose();
+            quickPick.dispose();
+        });
+
+        showFiles();
+        quickPick.busy = true;
+        quickPick.show();
+
+        try {
+            await this.update(token, () => {
+                quickPick.title = `Indexing remote files... (${this.fileCount})`;
+                showFiles();
+            });
+            if (!token.isCancellationRequested) {
+                quickPick.title = undefined;
+                showFiles();
+            }
+        } catch (error) {
+            console.error('Failed to index remote files:', error);
+            vscode.window.showErrorMessage(`Failed to index remote files: ${error}`);
+        } finally {
+            if (!token.isCancellationRequested) {
+                quickPick.busy = false;
+            }
+        }
+    }
+
+    /**
+     * Lists pending and invalidated directories until the index is complete or the token is cancelled.
+     */
+    async update(token: vscode.CancellationToken, onProgress?: () => void): Promise<void> {
+        const config = vscode.workspace.getConfiguration('jupyterFileExplorer');
+        const maxDepth = config.get<number>('fileIndexDepth', 8);
+        const excludes = config.get<string[]>('fileIndexExclude', []);
+
+        // Start over for a different connection or different index settings
+        const key = JSON.stringify([this.fileExplorerProvider.connectionId, this.fileExplorerProvider.getServerUrl(), maxDepth, excludes]);
+        if (key !== this.indexKey) {
+            this.indexKey = key;
+            this.directories.clear();
+            this.dirty.clear();
+            this.pending = [{ path: '', depth: 0 }];
+        }
+
+        this.dirty.forEach(path => {
+            const directory = this.directories.get(path);
+            if (directory) {
+                this.pending.unshift({ path, depth: directory.depth });
+            }
+        });
+        this.dirty.clear();
+
+        let listed = 0;
+        while (this.pending.length > 0) {
+            if (token.isCancellationRequested) {
+                return;
+            }
+
+            const next = this.pending.shift()!;
+            try {
+                await this.listDirectory(next.path, next.depth, maxDepth, excludes);
+            } catch (error) {
+                if (token.isCancellationRequested) {
+                    this.pending.unshift(next);
+                    return;
+                }
+                console.warn(`Skipping ${next.path || '/'} in the file index:`, error);
+            }
+
+            if (onProgress && ++listed % 10 === 0) {
+                onProgress();
+            }
+        }
+    }
+
+    private async listDirectory(dirPath: string, depth: number, maxDepth: number, excludes: string[]): Promise<void> {
+        const axiosInstance = this.fileExplorerProvider.getAxiosInstance();
+        if (!axiosInstance) {
+            throw new Error('Not connected to Jupyter Server');
+        }
+
+        const response = await axiosInstance.get(`api/contents/${dirPath}`);
+        if (response.status === 404 || (response.status < 400 && response.data?.type !== 'directory')) {
+            this.removeDirectory(dirPath);
+            return;
+        }
+        if (response.status >= 400 || !Array.isArray(response.data?.content)) {
+            throw new Error(`${response.status} - ${response.data?.message || response.statusText}`);
+        }
+
+        const files: string[] = [];
+        const directories: string[] = [];
+        const sizes: { [path: string]: number } = {};
+        for (const child of response.data.content) {
+            if (matchesAnyGlob(child.path, excludes)) {
+                continue;
+            }
+            (child.type === 'directory' ? directories : files).push(child.path);
+            if (child.type !== 'directory' && typeof child.size === 'number') {
+                sizes[child.path] = child.size;
+            }
+        }
+
+        // Subdirectories that disappeared take their indexed contents with them
+        const previous = this.directories.get(dirPath);
+        previous?.directories
+            .filter(path => !directories.includes(path))
+            .forEach(path => this.removeDirectory(path));
+
+        this.directories.set(dirPath, { depth, files, directories, sizes });
+
+        if (depth < maxDepth) {
+            for (const path of directories) {
+                if (!this.directories.has(path) && !this.pending.some(entry => entry.path === path)) {
+                    this.pending.push({ path, depth: depth + 1 });
+                }
+            }
+        }
+    }
+
+    private removeDirectory(dirPath: string): void {
+        const directory = this.directories.get(dirPath);
+        this.directories.delete(dirPath);
+        this.pending = this.pending.filter(entry => entry.path !== dirPath);
+        directory?.directories.forEach(path => this.removeDirectory(path));
+    }
+
+    private invalidate(path: string): void {
+        const cleanPath = path.replace(/^\/+|\/+$/g, '');
+        const separator = cleanPath.lastIndexOf('/');
+        const parentPath = separator === -1 ? '' : cleanPath.substring(0, separator);
+
+        // The path may be a file or a directory, so mark both it and its parent for listing
+        for (const candidate of [cleanPath, parentPath]) {
+            if (this.directories.has(candidate)) {
+                this.dirty.add(candidate);
+            }
+        }
+    }
+}
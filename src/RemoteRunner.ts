@@ -0,0 +1,373 @@
+import * as vscode from 'vscode';
+import * as crypto from 'crypto';
+import * as path from 'path';
+import WebSocket = require('ws');
+import { AxiosInstance } from 'axios';
+import { FileExplorerProvider, FileItem } from './FileExplorer';
+import { ConnectionManager } from './ConnectionManager';
+
+interface KernelSpecModel {
+    name: string;
+    spec: {
+        display_name: string;
+        language: string;
+    };
+}
+
+interface RemoteRun {
+    label: string;
+    provider: FileExplorerProvider;
+    kernelId: string;
+    interrupted: boolean;
+}
+
+/**
+ * Runs a remote Python script or notebook on a fresh kernel of the file's server and streams
+ * what it prints into the "Jupyter Remote Run" output channel. The kernel is shut down when
+ * the run ends.
+ */
+export class RemoteRunner {
+    private output = vscode.window.createOutputChannel('Jupyter Remote Run');
+    private statusBarItem = vscode.window.createStatusBarItem(vscode.StatusBarAlignment.Left);
+    private runs = new Set<RemoteRun>();
+
+    constructor(private connectionManager: ConnectionManager) {
+        this.statusBarItem.command = 'jupyterFileExplorer.stopRemoteRun';
+        this.statusBarItem.tooltip = 'Interrupt the code running on the remote kernel';
+    }
+
+    dispose(): void {
+        this.output.dispose();
+        this.statusBarItem.dispose();
+    }
+
+    async run(target?: FileItem | vscode.Uri): Promise<void> {
+        const uri = target instanceof vscode.Uri ? target : target ? undefined : this.activeRemoteUri();
+        const provider = target instanceof FileItem ? this.connectionManager.providerFor(target) : uri && this.connectionManager.providerForUri(uri);
+        const filePath = target instanceof FileItem ? target.uri : uri?.path.replace(/^\//, '');
+        if (!provider || !filePath) {
+            vscode.window.showErrorMessage('Select a remote Python script or notebook to run.');
+            return;
+        }
+
+        const extension = path.extname(filePath).toLowerCase();
+        if (extension !== '.py' && extension !== '.ipynb') {
+            vscode.window.showErrorMessage('Only Python scripts (.py) and notebooks (.ipynb) can be run on a remote kernel.');
+            return;
+        }
+
+        const axiosInstance = provider.getAxiosInstance();
+        if (!axiosInstance) {
+            vscode.window.showErrorMessage('Not connected to Jupyter Server.');
+            return;
+        }
+
+        let run: RemoteRun | undefined;
+        try {
+            // The server copy is what runs, so unsaved edits are saved first
+            await provider.saveIfDirty(uri || provider.toRemoteUri(filePath));
+
+            const content = await provider.fetchFileContent(filePath);
+            const { cells, kernelName, language } = extension === '.ipynb'
+                ? this.parseNotebook(content)
+                : { cells: [content], kernelName: undefined, language: 'python' };
+            if (cells.length === 0) {
+                vscode.window.showInformationMessage(`${path.basename(filePath)} has no code to run.`);
+                return;
+            }
+
+            const kernelSpec = await this.pickKernelSpec(axiosInstance, language, kernelName);
+            if (!kernelSpec) {
+                return;
+            }
+
+            // Started in the file's folder so relative paths in the code resolve like in JupyterLab
+            const startResponse = await axiosInstance.post('api/kernels', { name: kernelSpec.name, path: path.posix.dirname(filePath) });
+            if (startResponse.status >= 400) {
+                throw new Error(`${startResponse.status} - ${startResponse.data?.message || startResponse.statusText}`);
+            }
+
+            run = { label: path.basename(filePath), provider, kernelId: startResponse.data.id, interrupted: false };
+            this.runs.add(run);
+            this.updateStatusBar();
+
+            this.output.show(true);
+            this.output.appendLine(`[${new Date().toLocaleTimeString()}] Running ${filePath} on ${kernelSpec.spec.display_name} (${provider.getConnectionName()})`);
+            await this.execute(run, cells);
+        } catch (error) {
+            if (run?.interrupted) {
+                // Stopping twice shuts the kernel down, which closes the connection mid-run
+                this.output.appendLine(`Stopped ${run.label}.`);
+                return;
+            }
+            console.error(`Failed to run ${filePath} on a remote kernel:`, error);
+            this.output.appendLine(`Failed to run ${filePath}: ${error}`);
+            vscode.window.showErrorMessage(`Failed to run ${path.basename(filePath)} on a remote kernel: ${error}`);
+        } finally {
+            if (run) {
+                this.runs.delete(run);
+                this.updateStatusBar();
+                await this.shutdownKernel(run);
+            }
+        }
+    }
+
+    /**
+     * Interrupts a run. Stopping a run that was already interrupted shuts its kernel down,
+     * for code that does not react to interrupts.
+     */
+    async stop(): Promise<void> {
+        const runs = Array.from(this.runs);
+        if (runs.length === 0) {
+            vscode.window.showInformationMessage('Nothing is running on a remote kernel.');
+            return;
+        }
+
+        let run: RemoteRun | undefined = runs[0];
+        if (runs.length > 1) {
+            const picked = await vscode.window.showQuickPick(
+                runs.map(r => ({ label: r.label, description: r.provider.getConnectionName(), run: r })),
+                { placeHolder: 'Select the run to stop' }
+            );
+            run = picked?.run;
+        }
+        if (run) {
+            await this.interrupt(run);
+        }
+    }
+
+    private async execute(run: RemoteRun, cells: string[]): Promise<void> {
+        const serverUrl = run.provider.getServerUrl();
+        const sessionId = crypto.randomBytes(16).toString('hex');
+        const websocketUrl = `${serverUrl.replace(/^http/, 'ws')}api/kernels/${run.kernelId}/channels?session_id=${sessionId}`;
+        const connection = await KernelConnection.open(websocketUrl, run.provider.getToken(), sessionId);
+
+        try {
+            await vscode.window.withProgress({
+                location: vscode.ProgressLocation.Notification,
+                title: `Running ${run.label}`,
+                cancellable: true
+            }, async (progress, token) => {
+                const cancelListener = token.onCancellationRequested(() => this.interrupt(run));
+                try {
+                    for (let i = 0; i < cells.length; i++) {
+                        if (cells.length > 1) {
+                            progress.report({ message: `cell ${i + 1} of ${cells.length}` });
+                            this.output.appendLine(`--- Cell ${i + 1} ---`);
+                        }
+
+                        const status = await connection.execute(cells[i], message => this.writeOutput(message));
+                        if (status !== 'ok') {
+                            const where = cells.length > 1 ? ` in cell ${i + 1}` : '';
+                            this.output.appendLine(run.interrupted ? `Interrupted${where}.` : `Stopped after an error${where}.`);
+                            return;
+                        }
+                    }
+                    this.output.appendLine(`[${new Date().toLocaleTimeString()}] Finished ${run.label}.`);
+                } finally {
+                    cancelListener.dispose();
+                }
+            });
+        } finally {
+            connection.close();
+        }
+    }
+
+    private writeOutput(message: any): void {
+        const content = message.content || {};
+        switch (message.header.msg_type) {
+            case 'stream':
+                this.output.append(content.text || '');
+                break;
+            case 'execute_result':
+            case 'display_data': {
+                const data = content.data || {};
+                if (data['text/plain'] !== undefined) {
+                    this.output.appendLine(data['text/plain']);
+                } else {
+                    this.output.appendLine(`[${Object.keys(data).join(', ')} output not shown]`);
+                }
+                break;
+            }
+            case 'error':
+                // Tracebacks come with terminal colors, which the output channel cannot show
+                this.output.appendLine((content.traceback || [`${content.ename}: ${content.evalue}`]).join('\n').replace(/\x1b\[[0-9;]*m/g, ''));
+                break;
+        }
+    }
+
+    private async interrupt(run: RemoteRun): Promise<void> {
+        const axiosInstance = run.provider.getAxiosInstance();
+        if (!axiosInstance || !this.runs.has(run)) {
+            return;
+        }
+
+        try {
+            if (run.interrupted) {
+                this.output.appendLine(`Shutting down the kernel of ${run.label}...`);
+                await this.shutdownKernel(run);
+                return;
+            }
+
+            run.interrupted = true;
+            this.output.appendLine(`Interrupting ${run.label}...`);
+            const response = await axiosInstance.post(`api/kernels/${run.kernelId}/interrupt`);
+            if (response.status >= 400) {
+                throw new Error(`${response.status} - ${response.data?.message || response.statusText}`);
+            }
+        } catch (error) {
+            console.error(`Failed to interrupt kernel ${run.kernelId}:`, error);
+            vscode.window.showErrorMessage(`Failed to stop ${run.label}: ${error}`);
+        }
+    }
+
+    private async shutdownKernel(run: RemoteRun): Promise<void> {
+        try {
+            await run.provider.getAxiosInstance()?.delete(`api/kernels/${run.kernelId}`);
+        } catch (error) {
+            console.warn(`Failed to shut down kernel ${run.kernelId} (non-critical):`, error);
+        }
+    }
+
+    private async pickKernelSpec(axiosInstance: AxiosInstance, language: string, preferredName?: string): Promise<KernelSpecModel | undefined> {
+        const response = await axiosInstance.get('api/kernelspecs');
+        if (response.status >= 400) {
+            throw new Error(`${response.status} - ${response.data?.message || response.statusText}`);
+        }
+
+        const specs: KernelSpecModel[] = Object.keys(response.data.kernelspecs || {}).map(name => response.data.kernelspecs[name]);
+        if (specs.length === 0) {
+            throw new Error('The server has no kernels installed');
+        }
+        if (specs.length === 1) {
+            return specs[0];
+        }
+
+        // Kernels for the file's language first, the notebook's own or the server default on top
+        const preferred = preferredName || response.data.default;
+        const rank = (spec: KernelSpecModel) => (spec.name === preferred ? 0 : 2) + (spec.spec.language?.toLowerCase() === language.toLowerCase() ? 0 : 1);
+        specs.sort((a, b) => rank(a) - rank(b) || a.spec.display_name.localeCompare(b.spec.display_name));
+
+        const picked = await vscode.window.showQuickPick(
+            specs.map(spec => ({ label: spec.spec.display_name, description: spec.name, spec })),
+            { placeHolder: 'Select the kernel to run on' }
+        );
+        return picked?.spec;
+    }
+
+    private parseNotebook(content: string): { cells: string[]; kernelName?: string; language: string } {
+        const notebook = JSON.parse(content);
+        const cells = (notebook.cells || [])
+            .filter((cell: any) => cell.cell_type === 'code')
+            .map((cell: any) => Array.isArray(cell.source) ? cell.source.join('') : cell.source || '')
+            .filter((source: string) => source.trim().length > 0);
+
+        return {
+            cells,
+            kernelName: notebook.metadata?.kernelspec?.name,
+            language: notebook.metadata?.kernelspec?.language || notebook.metadata?.language_info?.name || 'python'
+        };
+    }
+
+    private activeRemoteUri(): vscode.Uri | undefined {
+        const uri = vscode.window.activeNotebookEditor?.notebook.uri || vscode.window.activeTextEditor?.document.uri;
+        return uri?.scheme === 'jupyter-remote' ? uri : undefined;
+    }
+
+    private updateStatusBar(): void {
+        if (this.runs.size === 0) {
+            this.statusBarItem.hide();
+            return;
+        }
+        const label = this.runs.size === 1 ? Array.from(this.runs)[0].label : `${this.runs.size} remote runs`;
+        this.statusBarItem.text = `$(debug-stop) Stop ${label}`;
+        this.statusBarItem.show();
+    }
+}
+
+/**
+ * A kernel's websocket, speaking the Jupyter messaging protocol in its JSON form.
+ */
+class KernelConnection {
+    // Requests waiting for both their reply and the kernel going idle, after which all output has arrived
+    private pending = new Map<string, { reply?: string; idle: boolean; onOutput: (message: any) => void; resolve: (status: string) => void; reject: (error: Error) => void }>();
+
+    private constructor(private socket: WebSocket, private sessionId: string) {
+        socket.on('message', (data: WebSocket.RawData) => this.handleMessage(data));
+        socket.on('close', () => {
+            this.pending.forEach(request => request.reject(new Error('The kernel connection was closed')));
+            this.pending.clear();
+        });
+    }
+
+    static open(websocketUrl: string, token: string, sessionId: string): Promise<KernelConnection> {
+        return new Promise((resolve, reject) => {
+            const socket = new WebSocket(websocketUrl, {
+                headers: { 'Authorization': `token ${token}` }
+            });
+            socket.once('open', () => resolve(new KernelConnection(socket, sessionId)));
+            socket.once('error', (error: Error) => reject(error));
+        });
+    }
+
+    execute(code: string, onOutput: (message: any) => void): Promise<string> {
+        const msgId = crypto.randomBytes(16).toString('hex');
+        return new Promise((resolve, reject) => {
+            this.pending.set(msgId, { idle: false, onOutput, resolve, reject });
+            this.socket.send(JSON.stringify({
+                header: {
+                    msg_id: msgId,
+                    msg_type: 'execute_request',
+                    session: this.sessionId,
+                    username: 'vscode',
+                    date: new Date().toISOString(),
+                    version: '5.3'
+                },
+                parent_header: {},
+                metadata: {},
+                content: {
+                    code,
+                    silent: false,
+                    store_history: true,
+                    user_expressions: {},
+                    allow_stdin: false,
+                    stop_on_error: true
+                },
+                channel: 'shell',
+                buffers: []
+            }));
+        });
+    }
+
+    close(): void {
+        this.socket.close();
+    }
+
+    private handleMessage(data: WebSocket.RawData): void {
+        let message: any;
+        try {
+            message = JSON.parse(data.toString());
+        } catch (error) {
+            console.warn('Ignoring malformed kernel message:', error);
+            return;
+        }
+
+        const request = this.pending.get(message.parent_header?.msg_id);
+        if (!request) {
+            return;
+        }
+
+        if (message.channel === 'shell' && message.header.msg_type === 'execute_reply') {
+            request.reply = message.content?.status || 'error';
+        } else if (message.channel === 'iopub' && message.header.msg_type === 'status') {
+            request.idle = message.content?.execution_state === 'idle';
+        } else if (message.channel === 'iopub') {
+            request.onOutput(message);
+        }
+
+        if (request.reply && request.idle) {
+            this.pending.delete(message.parent_header.msg_id);
+            request.resolve(request.reply);
+        }
+    }
+}
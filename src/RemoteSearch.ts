@@ -0,0 +1,326 @@
+import * as vscode from 'vscode';
+import { ConnectionManager } from './ConnectionManager';
+import { RemoteFileIndex } from './RemoteFileIndex';
+import { matchesAnyGlob } from './glob';
+
+interface SearchMatch {
+    line: number; // Zero-based, within the file or within the notebook cell
+    column: number;
+    length: number;
+    preview: string; // The matching line, shortened around the match if it is long
+    previewColumn: number;
+    cell?: number; // Notebook cell index
+}
+
+interface SearchQuery {
+    pattern: RegExp;
+    includes: string[];
+    excludes: string[];
+}
+
+type SearchTreeItem = SearchFileItem | SearchMatchItem;
+
+export class RemoteSearchProvider implements vscode.TreeDataProvider<SearchTreeItem> {
+    private _onDidChangeTreeData: vscode.EventEmitter<SearchTreeItem | undefined | null> = new vscode.EventEmitter<SearchTreeItem | undefined | null>();
+    readonly onDidChangeTreeData: vscode.Event<SearchTreeItem | undefined | null> = this._onDidChangeTreeData.event;
+
+    private results: SearchFileItem[] = [];
+    private searchTokenSource: vscode.CancellationTokenSource | undefined;
+    private maxLineLength: number = 200;
+
+    constructor(
+        private connectionManager: ConnectionManager,
+        private remoteFileIndex: RemoteFileIndex
+    ) {}
+
+    private get fileExplorerProvider() {
+        return this.connectionManager.getActiveProvider();
+    }
+
+    getTreeItem(element: SearchTreeItem): vscode.TreeItem {
+        return element;
+    }
+
+    getChildren(element?: SearchTreeItem): SearchTreeItem[] {
+        if (!element) {
+            return this.results;
+        }
+        return element instanceof SearchFileItem ? element.matches : [];
+    }
+
+    clear(): void {
+        this.searchTokenSource?.cancel();
+        this.results = [];
+        this._onDidChangeTreeData.fire(null);
+        vscode.commands.executeCommand('setContext', 'jupyterFileExplorer.hasSearchResults', false);
+    }
+
+    async search(): Promise<void> {
+        if (!this.fileExplorerProvider.getAxiosInstance()) {
+            vscode.window.showErrorMessage('Not connected to Jupyter Server.');
+            return;
+        }
+
+        const query = await this.promptForQuery();
+        if (!query) {
+            return;
+        }
+
+        this.clear();
+        const tokenSource = new vscode.CancellationTokenSource();
+        this.searchTokenSource = tokenSource;
+        vscode.commands.executeCommand('setContext', 'jupyterFileExplorer.hasSearchResults', true);
+        vscode.commands.executeCommand('jupyterSearchResults.focus');
+
+        const config = vscode.workspace.getConfiguration('jupyterFileExplorer');
+        const concurrency = Math.max(1, config.get<number>('searchConcurrency', 4));
+        const maxResults = config.get<number>('searchMaxResults', 2000);
+        const maxFileSizeMb = config.get<number>('searchMaxFileSize', 10);
+
+        try {
+            await vscode.window.withProgress({
+                location: vscode.ProgressLocation.Notification,
+                title: `Searching remote files for ${query.pattern}`,
+                cancellable: true
+            }, async (progress, progressToken) => {
+                const cancelListener = progressToken.onCancellationRequested(() => tokenSource.cancel());
+                const token = tokenSource.token;
+
+                try {
+                    // The file list comes from the same index as "Go to Remote File"
+                    progress.report({ message: 'Indexing remote files...' });
+                    await this.remoteFileIndex.update(token);
+
+                    const provider = this.fileExplorerProvider;
+                    const candidates = this.remoteFileIndex.getFiles().filter(file =>
+                        !provider.isBinaryFile(file)
+                        && (query.includes.length === 0 || matchesAnyGlob(file, query.includes))
+                        && !matchesAnyGlob(file, query.excludes)
+                    );
+                    // Large data files (CSV, logs) would be downloaded in full, so they are left out
+                    const files = candidates.filter(file => (this.remoteFileIndex.getFileSize(file) ?? 0) <= maxFileSizeMb * 1024 * 1024);
+
+                    let searched = 0;
+                    let matchCount = 0;
+                    const queue = files.slice();
+                    const worker = async () => {
+                        while (queue.length > 0 && !token.isCancellationRequested && matchCount < maxResults) {
+                            const file = queue.shift()!;
+                            try {
+                                const content = await provider.fetchFileContent(file);
+                                const matches = this.findMatches(file, content, query.pattern);
+                                if (matches.length > 0 && !token.isCancellationRequested) {
+                                    matchCount += matches.length;
+                                    this.addResult(new SearchFileItem(provider.connectionId, file, matches));
+                                }
+                            } catch (error) {
+                                console.warn(`Skipping ${file} in search:`, error);
+                            }
+
+                            searched++;
+                            progress.report({ increment: 100 / files.length, message: `${searched}/${files.length} files, ${matchCount} results` });
+                        }
+                    };
+
+                    await Promise.all(Array.from({ length: concurrency }, worker));
+
+                    if (matchCount >= maxResults) {
+                        vscode.window.showInformationMessage(`Search stopped after ${maxResults} results. Narrow the query or the include globs to see more.`);
+                    } else if (!token.isCancellationRequested && matchCount === 0) {
+                        const skipped = candidates.length - files.length;
+                        vscode.window.showInformationMessage(`No results found in ${files.length} remote files.${skipped > 0 ? ` ${skipped} file(s) larger than ${maxFileSizeMb} MB were skipped.` : ''}`);
+                    }
+                } finally {
+                    cancelListener.dispose();
+                }
+            });
+        } catch (error) {
+            console.error('Remote search failed:', error);
+            vscode.window.showErrorMessage(`Remote search failed: ${error}`);
+        } finally {
+            tokenSource.dispose();
+            if (this.searchTokenSource === tokenSource) {
+                this.searchTokenSource = undefined;
+            }
+        }
+    }
+
+    async openMatch(match: SearchMatchItem): Promise<void> {
+        const provider = this.connectionManager.getById(match.connectionId);
+        if (!provider) {
+            vscode.window.showErrorMessage('The connection this search ran on has been closed.');
+            return;
+        }
+        const uri = provider.toRemoteUri(match.filePath);
+
+        try {
+            if (match.match.cell !== undefined) {
+                // Notebooks open on the matching cell when a notebook editor is available
+                try {
+                    const notebook = await vscode.workspace.openNotebookDocument(uri);
+                    const cellRange = new vscode.NotebookRange(match.match.cell, match.match.cell + 1);
+                    await vscode.window.showNotebookDocument(notebook, { selections: [cellRange] });
+                    return;
+                } catch (error) {
+                    console.log('Notebook editor not available, opening the notebook as text');
+                }
+                await provider.openFile(match.filePath);
+                return;
+            }
+
+            const { line, column, length } = match.match;
+            await vscode.window.showTextDocument(uri, {
+                selection: new vscode.Range(line, column, line, column + length)
+            });
+        } catch (error) {
+            console.error('Failed to open search result:', error);
+            vscode.window.showErrorMessage(`Failed to open ${match.filePath}: ${error}`);
+        }
+    }
+
+    private addResult(result: SearchFileItem): void {
+        this.results.push(result);
+        this.results.sort((a, b) => a.filePath.localeCompare(b.filePath));
+        this._onDidChangeTreeData.fire(null);
+    }
+
+    private async promptForQuery(): Promise<SearchQuery | undefined> {
+        const text = await vscode.window.showInputBox({
+            prompt: 'Search the contents of remote files',
+            placeHolder: 'Text or regular expression',
+            ignoreFocusOut: true
+        });
+        if (!text) {
+            return undefined;
+        }
+
+        const options = await vscode.window.showQuickPick([
+            { label: 'Match Case', picked: false },
+            { label: 'Use Regular Expression', picked: false }
+        ], { canPickMany: true, placeHolder: 'Search options (press Enter for a plain, case-insensitive search)' });
+        if (!options) {
+            return undefined;
+        }
+        const matchCase = options.some(option => option.label === 'Match Case');
+        const useRegex = options.some(option => option.label === 'Use Regular Expression');
+
+        let pattern: RegExp;
+        try {
+            const source = useRegex ? text : text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+            pattern = new RegExp(source, matchCase ? 'g' : 'gi');
+        } catch (error) {
+            vscode.window.showErrorMessage(`Invalid regular expression: ${error}`);
+            return undefined;
+        }
+
+        const includes = await vscode.window.showInputBox({
+            prompt: 'Files to include (comma-separated globs, empty for all files)',
+            placeHolder: 'e.g. **/*.py, notebooks/**',
+            ignoreFocusOut: true
+        });
+        if (includes === undefined) {
+            return undefined;
+        }
+
+        const config = vscode.workspace.getConfiguration('jupyterFileExplorer');
+        const excludes = await vscode.window.showInputBox({
+            prompt: 'Files to exclude (comma-separated globs)',
+            value: config.get<string[]>('fileIndexExclude', []).join(', '),
+            ignoreFocusOut: true
+        });
+        if (excludes === undefined) {
+            return undefined;
+        }
+
+        const splitGlobs = (value: string) => value.split(',').map(glob => glob.trim()).filter(glob => glob);
+        return { pattern, includes: splitGlobs(includes), excludes: splitGlobs(excludes) };
+    }
+
+    private findMatches(filePath: string, content: string, pattern: RegExp): SearchMatch[] {
+        if (filePath.toLowerCase().endsWith('.ipynb')) {
+            let notebook: any;
+            try {
+                notebook = JSON.parse(content);
+            } catch (error) {
+                // Not valid notebook JSON, search it as plain text
+                return this.findMatchesInText(content, pattern);
+            }
+
+            const cells: any[] = Array.isArray(notebook?.cells) ? notebook.cells : [];
+            const matches: SearchMatch[] = [];
+            cells.forEach((cell, index) => {
+                const source = Array.isArray(cell.source) ? cell.source.join('') : String(cell.source || '');
+                this.findMatchesInText(source, pattern).forEach(match => matches.push({ ...match, cell: index }));
+            });
+            return matches;
+        }
+
+        return this.findMatchesInText(content, pattern);
+    }
+
+    private findMatchesInText(text: string, pattern: RegExp): SearchMatch[] {
+        const matches: SearchMatch[] = [];
+        text.split(/\r?\n/).forEach((lineText, line) => {
+            pattern.lastIndex = 0;
+            let result: RegExpExecArray | null;
+            while ((result = pattern.exec(lineText)) !== null) {
+                if (result[0].length === 0) {
+                    // Empty matches (e.g. /^/) would loop forever
+                    pattern.lastIndex++;
+                    continue;
+                }
+                const previewStart = lineText.length > this.maxLineLength ? Math.max(0, result.index - 40) : 0;
+                matches.push({
+                    line,
+                    column: result.index,
+                    length: result[0].length,
+                    preview: lineText.substring(previewStart, previewStart + this.maxLineLength),
+                    previewColumn: result.index - previewStart
+                });
+            }
+        });
+        return matches;
+    }
+}
+
+export class SearchFileItem extends vscode.TreeItem {
+    public readonly matches: SearchMatchItem[];
+
+    constructor(public readonly connectionId: string, public readonly filePath: string, matches: SearchMatch[]) {
+        super(filePath.split('/').pop() || filePath, vscode.TreeItemCollapsibleState.Expanded);
+
+        const separator = filePath.lastIndexOf('/');
+        this.description = `${separator === -1 ? '' : filePath.substring(0, separator) + ' • '}${matches.length}`;
+        this.tooltip = filePath;
+        this.resourceUri = vscode.Uri.from({ scheme: 'jupyter-remote', authority: connectionId, path: '/' + filePath });
+        this.iconPath = vscode.ThemeIcon.File;
+        this.contextValue = 'searchFile';
+        this.matches = matches.map(match => new SearchMatchItem(connectionId, filePath, match));
+    }
+}
+
+export class SearchMatchItem extends vscode.TreeItem {
+    constructor(public readonly connectionId: string, public readonly filePath: string, public readonly match: SearchMatch) {
+        super(SearchMatchItem.buildLabel(match), vscode.TreeItemCollapsibleState.None);
+
+        this.description = match.cell !== undefined
+            ? `cell ${match.cell + 1}, line ${match.line + 1}`
+            : `line ${match.line + 1}`;
+        this.tooltip = `${filePath}\n${this.description}`;
+        this.contextValue = 'searchMatch';
+        this.command = {
+            command: 'jupyterSearchResults.openMatch',
+            title: 'Open Match',
+            arguments: [this]
+        };
+    }
+
+    private static buildLabel(match: SearchMatch): vscode.TreeItemLabel {
+        const label = match.preview.replace(/^\s+/, '');
+        const start = match.previewColumn - (match.preview.length - label.length);
+        return {
+            label: label.replace(/\s+$/, ''),
+            highlights: [[start, start + match.length]]
+        };
+    }
+}
@@ -0,0 +1,196 @@
+import * as vscode from 'vscode';
+import WebSocket = require('ws');
+import { FileExplorerProvider } from './FileExplorer';
+import { ConnectionManager } from './ConnectionManager';
+
+interface TerminalModel {
+    name: string;
+    last_activity?: string;
+}
+
+export class RemoteTerminalManager {
+    // Server terminals that have an open VS Code terminal in this window, keyed by connection id and terminal name
+    private attached = new Map<string, { terminal: vscode.Terminal; pty: JupyterTerminal }>();
+    private closeListener: vscode.Disposable;
+
+    constructor(private connectionManager: ConnectionManager) {
+        this.closeListener = vscode.window.onDidCloseTerminal(terminal => {
+            for (const [key, entry] of this.attached) {
+                if (entry.terminal === terminal) {
+                    this.attached.delete(key);
+                }
+            }
+        });
+    }
+
+    dispose(): void {
+        this.closeListener.dispose();
+    }
+
+    async openRemoteTerminal(): Promise<void> {
+        const provider = this.connectionManager.getActiveProvider();
+        const axiosInstance = provider.getAxiosInstance();
+        if (!axiosInstance) {
+            vscode.window.showErrorMessage('Not connected to Jupyter Server.');
+            return;
+        }
+
+        try {
+            const response = await axiosInstance.get('api/terminals');
+            if (response.status === 404) {
+                vscode.window.showErrorMessage('Terminals are disabled on this Jupyter Server.');
+                return;
+            }
+            const terminals: TerminalModel[] = response.status < 400 && Array.isArray(response.data) ? response.data : [];
+
+            let terminalName: string | undefined;
+            if (terminals.length > 0) {
+                const picked = await vscode.window.showQuickPick([
+                    { label: '$(add) New Terminal', name: undefined as string | undefined },
+                    ...terminals.map(terminal => ({
+                        label: `$(terminal) Terminal ${terminal.name}`,
+                        description: this.attached.get(this.attachedKey(provider, terminal.name))?.pty.isConnected ? 'attached' : undefined,
+                        detail: terminal.last_activity ? `Last activity: ${new Date(terminal.last_activity).toLocaleString()}` : undefined,
+                        name: terminal.name as string | undefined
+                    }))
+                ], { placeHolder: 'Create a new remote terminal or reattach to an existing one' });
+
+                if (!picked) {
+                    return;
+                }
+                terminalName = picked.name;
+            }
+
+            if (!terminalName) {
+                const createResponse = await axiosInstance.post('api/terminals');
+                if (createResponse.status >= 400) {
+                    throw new Error(`${createResponse.status} - ${createResponse.data?.message || createResponse.statusText}`);
+                }
+                terminalName = createResponse.data.name as string;
+            }
+
+            const existing = this.attached.get(this.attachedKey(provider, terminalName));
+            if (existing?.pty.isConnected) {
+                existing.terminal.show();
+                return;
+            }
+            // Replace a terminal whose websocket dropped, e.g. after a reconnect
+            existing?.terminal.dispose();
+
+            this.attachTerminal(provider, terminalName);
+        } catch (error) {
+            console.error('Failed to open remote terminal:', error);
+            vscode.window.showErrorMessage(`Failed to open remote terminal: ${error}`);
+        }
+    }
+
+    private attachTerminal(provider: FileExplorerProvider, terminalName: string): void {
+        const serverUrl = provider.getServerUrl();
+        const websocketUrl = `${serverUrl.replace(/^http/, 'ws')}terminals/websocket/${terminalName}`;
+
+        const pty = new JupyterTerminal(websocketUrl, provider.getToken());
+        const terminal = vscode.window.createTerminal({
+            name: `Jupyter: ${provider.getConnectionName()} (${terminalName})`,
+            pty
+        });
+        this.attached.set(this.attachedKey(provider, terminalName), { terminal, pty });
+        terminal.show();
+    }
+
+    private attachedKey(provider: FileExplorerProvider, terminalName: string): string {
+        return `${provider.connectionId}/${terminalName}`;
+    }
+}
+
+/**
+ * Bridges a Jupyter terminal websocket (terminado protocol) to a VS Code pseudoterminal.
+ * Closing the VS Code terminal only detaches; the shell keeps running on the server.
+ */
+class JupyterTerminal implements vscode.Pseudoterminal {
+    private writeEmitter = new vscode.EventEmitter<string>();
+    readonly onDidWrite: vscode.Event<string> = this.writeEmitter.event;
+
+    private closeEmitter = new vscode.EventEmitter<number | void>();
+    readonly onDidClose: vscode.Event<number | void> = this.closeEmitter.event;
+
+    private socket: WebSocket | undefined;
+    private dimensions: vscode.TerminalDimensions | undefined;
+    private closedByUser = false;
+
+    constructor(private websocketUrl: string, private token: string) {}
+
+    get isConnected(): boolean {
+        return !!this.socket && this.socket.readyState === WebSocket.OPEN;
+    }
+
+    open(initialDimensions: vscode.TerminalDimensions | undefined): void {
+        this.dimensions = initialDimensions;
+        this.writeEmitter.fire('Connecting to remote terminal...\r\n');
+
+        this.socket = new WebSocket(this.websocketUrl, {
+            headers: { 'Authorization': `token ${this.token}` }
+        });
+
+        this.socket.on('open', () => {
+            this.sendSize();
+        });
+
+        this.socket.on('message', (data: WebSocket.RawData) => {
+            let message: any[];
+            try {
+                message = JSON.parse(data.toString());
+            } catch (error) {
+                console.warn('Ignoring malformed terminal message:', error);
+                return;
+            }
+
+            switch (message[0]) {
+                case 'stdout':
+                    this.writeEmitter.fire(message[1]);
+                    break;
+                case 'disconnect':
+                    // The shell exited on the server
+                    this.closeEmitter.fire();
+                    break;
+            }
+        });
+
+        this.socket.on('error', (error: Error) => {
+            console.error('Remote terminal websocket error:', error);
+            this.writeEmitter.fire(`\r\n\x1b[31mRemote terminal error: ${error.message}\x1b[0m\r\n`);
+        });
+
+        this.socket.on('close', () => {
+            if (!this.closedByUser) {
+                this.writeEmitter.fire('\r\n\x1b[33m[Connection to the remote terminal was lost. Run "Open Remote Terminal" to reattach.]\x1b[0m\r\n');
+            }
+        });
+    }
+
+    close(): void {
+        this.closedByUser = true;
+        this.socket?.close();
+        this.socket = undefined;
+    }
+
+    handleInput(data: string): void {
+        this.send(['stdin', data]);
+    }
+
+    setDimensions(dimensions: vscode.TerminalDimensions): void {
+        this.dimensions = dimensions;
+        this.sendSize();
+    }
+
+    private sendSize(): void {
+        if (this.dimensions) {
+            this.send(['set_size', this.dimensions.rows, this.dimensions.columns]);
+        }
+    }
+
+    private send(message: any[]): void {
+        if (this.socket && this.socket.readyState === WebSocket.OPEN) {
+            this.socket.send(JSON.stringify(message));
+        }
+    }
+}
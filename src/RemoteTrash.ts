@@ -0,0 +1,332 @@
+import * as vscode from 'vscode';
+import { AxiosInstance } from 'axios';
+import { FileExplorerProvider } from './FileExplorer';
+import { ConnectionManager } from './ConnectionManager';
+
+export interface TrashEntry {
+    name: string; // Name of the item inside the trash folder
+    originalPath: string;
+    deletedAt: string;
+    type: string;
+}
+
+// Records where each trashed item came from; kept in the trash folder so it travels with the server
+const INDEX_FILE = 'trash-index.json';
+
+/**
+ * Soft delete for one connection: items are moved into the trash folder under a unique
+ * name and can be moved back to where they were.
+ */
+export class RemoteTrash {
+    // Index updates run one after another so concurrent deletes don't drop each other's entries
+    private indexUpdate: Promise<void> = Promise.resolve();
+
+    constructor(private fileExplorerProvider: FileExplorerProvider) {}
+
+    get folder(): string {
+        const config = vscode.workspace.getConfiguration('jupyterFileExplorer');
+        return config.get<string>('trashFolder', '_trash').replace(/^\/+|\/+$/g, '') || '_trash';
+    }
+
+    isEnabled(): boolean {
+        return vscode.workspace.getConfiguration('jupyterFileExplorer').get<boolean>('useTrash', false);
+    }
+
+    contains(itemPath: string): boolean {
+        const cleanPath = itemPath.replace(/^\/+/, '');
+        return cleanPath === this.folder || cleanPath.startsWith(`${this.folder}/`);
+    }
+
+    async moveToTrash(itemPath: string, type: string): Promise<TrashEntry> {
+        const axiosInstance = this.getAxiosInstance();
+        const originalPath = itemPath.replace(/^\/+/, '');
+        await this.ensureDirectory(axiosInstance, this.folder);
+
+        const entry: TrashEntry = {
+            name: `${Date.now().toString(36)}_${originalPath.split('/').pop()}`,
+            originalPath,
+            deletedAt: new Date().toISOString(),
+            type
+        };
+        this.fileExplorerProvider.ensureSuccess(await axiosInstance.patch(`api/contents/${originalPath}`, { path: `${this.folder}/${entry.name}` }));
+
+        await this.updateIndex(axiosInstance, index => [...index, entry]);
+
+        this.fileExplorerProvider.invalidateCacheForPath(originalPath);
+        this.fileExplorerProvider.invalidateCacheForPath(this.folder);
+        return entry;
+    }
+
+    /**
+     * Lists the trash folder. Items put there by hand show up with their name as the original path.
+     */
+    async list(): Promise<TrashEntry[]> {
+        const axiosInstance = this.getAxiosInstance();
+        const response = await axiosInstance.get(`api/contents/${this.folder}`);
+        if (response.status === 404) {
+            return [];
+        }
+        this.fileExplorerProvider.ensureSuccess(response);
+
+        const index = await this.readIndex(axiosInstance);
+        return (response.data.content as any[])
+            .filter(child => child.name !== INDEX_FILE)
+            .map(child => index.find(entry => entry.name === child.name) || {
+                name: child.name,
+                originalPath: child.name,
+                deletedAt: child.last_modified,
+                type: child.type
+            })
+            .sort((a, b) => b.deletedAt.localeCompare(a.deletedAt));
+    }
+
+    /**
+     * Moves an item back to its original path, recreating missing parent folders. When that
+     * path is taken again the item is restored next to it with a suffix. Returns the restored path.
+     */
+    async restore(entry: TrashEntry): Promise<string> {
+        const axiosInstance = this.getAxiosInstance();
+        const separator = entry.originalPath.lastIndexOf('/');
+        const parentPath = separator === -1 ? '' : entry.originalPath.substring(0, separator);
+        await this.ensureDirectory(axiosInstance, parentPath);
+
+        let targetPath = entry.originalPath;
+        for (let attempt = 1; await this.exists(axiosInstance, targetPath); attempt++) {
+            const name = entry.originalPath.substring(separator + 1);
+            const dot = entry.type === 'directory' ? -1 : name.lastIndexOf('.');
+            const restoredName = dot > 0
+                ? `${name.substring(0, dot)} (restored${attempt > 1 ? ` ${attempt}` : ''})${name.substring(dot)}`
+                : `${name} (restored${attempt > 1 ? ` ${attempt}` : ''})`;
+            targetPath = parentPath ? `${parentPath}/${restoredName}` : restoredName;
+        }
+
+        this.fileExplorerProvider.ensureSuccess(await axiosInstance.patch(`api/contents/${this.folder}/${entry.name}`, { path: targetPath }));
+        await this.removeFromIndex(axiosInstance, entry);
+
+        this.fileExplorerProvider.invalidateCacheForPath(targetPath);
+        this.fileExplorerProvider.invalidateCacheForPath(this.folder);
+        return targetPath;
+    }
+
+    async deletePermanently(entry: TrashEntry): Promise<void> {
+        const axiosInstance = this.getAxiosInstance();
+        await this.fileExplorerProvider.delete(
+            this.fileExplorerProvider.toRemoteUri(`${this.folder}/${entry.name}`),
+            { recursive: true }
+        );
+        await this.removeFromIndex(axiosInstance, entry);
+        this.fileExplorerProvider.invalidateCacheForPath(this.folder);
+    }
+
+    private getAxiosInstance(): AxiosInstance {
+        const axiosInstance = this.fileExplorerProvider.getAxiosInstance();
+        if (!axiosInstance) {
+            throw new Error('Not connected to Jupyter Server');
+        }
+        return axiosInstance;
+    }
+
+    private async ensureDirectory(axiosInstance: AxiosInstance, dirPath: string): Promise<void> {
+        if (!dirPath || await this.exists(axiosInstance, dirPath)) {
+            return;
+        }
+        const separator = dirPath.lastIndexOf('/');
+        if (separator !== -1) {
+            await this.ensureDirectory(axiosInstance, dirPath.substring(0, separator));
+        }
+        this.fileExplorerProvider.ensureSuccess(await axiosInstance.put(`api/contents/${dirPath}`, { type: 'directory' }));
+    }
+
+    private async exists(axiosInstance: AxiosInstance, itemPath: string): Promise<boolean> {
+        const response = await axiosInstance.get(`api/contents/${itemPath}?content=0`);
+        if (response.status === 404) {
+            return false;
+        }
+        this.fileExplorerProvider.ensureSuccess(response);
+        return true;
+    }
+
+    private async readIndex(axiosInstance: AxiosInstance): Promise<TrashEntry[]> {
+        const response = await axiosInstance.get(`api/contents/${this.folder}/${INDEX_FILE}?type=file&format=text`);
+        if (response.status === 404) {
+            return [];
+        }
+        this.fileExplorerProvider.ensureSuccess(response);
+        try {
+            const index = JSON.parse(response.data.content);
+            return Array.isArray(index) ? index : [];
+        } catch (error) {
+            console.warn('Ignoring unreadable trash index:', error);
+            return [];
+        }
+    }
+
+    private async writeIndex(axiosInstance: AxiosInstance, index: TrashEntry[]): Promise<void> {
+        this.fileExplorerProvider.ensureSuccess(await axiosInstance.put(`api/contents/${this.folder}/${INDEX_FILE}`, {
+            type: 'file',
+            format: 'text',
+            content: JSON.stringify(index, null, 1)
+        }));
+    }
+
+    private removeFromIndex(axiosInstance: AxiosInstance, entry: TrashEntry): Promise<void> {
+        return this.updateIndex(axiosInstance, index => {
+            const remaining = index.filter(indexed => indexed.name !== entry.name);
+            return remaining.length !== index.length ? remaining : undefined;
+        });
+    }
+
+    // Applies a change to the index; returning undefined leaves the file untouched
+    private updateIndex(axiosInstance: AxiosInstance, change: (index: TrashEntry[]) => TrashEntry[] | undefined): Promise<void> {
+        const update = this.indexUpdate.then(async () => {
+            const updated = change(await this.readIndex(axiosInstance));
+            if (updated) {
+                await this.writeIndex(axiosInstance, updated);
+            }
+        });
+        this.indexUpdate = update.catch(() => undefined);
+        return update;
+    }
+}
+
+/**
+ * The "Trash" view: items in the trash folder of the active connection.
+ */
+export class TrashProvider implements vscode.TreeDataProvider<TrashItem> {
+    private _onDidChangeTreeData: vscode.EventEmitter<TrashItem | undefined | null> = new vscode.EventEmitter<TrashItem | undefined | null>();
+    readonly onDidChangeTreeData: vscode.Event<TrashItem | undefined | null> = this._onDidChangeTreeData.event;
+
+    constructor(private connectionManager: ConnectionManager) {
+        connectionManager.onDidChangeActive(() => this.refresh());
+        connectionManager.onDidInvalidatePath(path => {
+            if (this.fileExplorerProvider.trash.contains(path)) {
+                this.refresh();
+            }
+        });
+    }
+
+    private get fileExplorerProvider() {
+        return this.connectionManager.getActiveProvider();
+    }
+
+    refresh(): void {
+        this._onDidChangeTreeData.fire(null);
+    }
+
+    getTreeItem(element: TrashItem): vscode.TreeItem {
+        return element;
+    }
+
+    async getChildren(element?: TrashItem): Promise<TrashItem[]> {
+        if (element || !this.fileExplorerProvider.getAxiosInstance()) {
+            return [];
+        }
+
+        try {
+            const entries = await this.fileExplorerProvider.trash.list();
+            return entries.map(entry => new TrashItem(entry));
+        } catch (error) {
+            console.error('Failed to list the trash:', error);
+            vscode.window.showErrorMessage(`Failed to list the trash: ${error}`);
+            return [];
+        }
+    }
+
+    async restore(item: TrashItem): Promise<void> {
+        const provider = this.fileExplorerProvider;
+        try {
+            const restoredPath = await provider.trash.restore(item.entry);
+            provider.refresh();
+            this.refresh();
+            vscode.window.setStatusBarMessage(`Restored ${restoredPath}`, 3000);
+        } catch (error) {
+            console.error('Failed to restore from trash:', error);
+            vscode.window.showErrorMessage(`Failed to restore ${item.entry.originalPath}: ${error}`);
+        }
+    }
+
+    async deletePermanently(item: TrashItem): Promise<void> {
+        const result = await vscode.window.showWarningMessage(
+            `Permanently delete ${item.entry.originalPath}? This cannot be undone.`,
+            { modal: true },
+            'Delete Permanently'
+        );
+        if (result !== 'Delete Permanently') {
+            return;
+        }
+
+        try {
+            await this.fileExplorerProvider.trash.deletePermanently(item.entry);
+            this.refresh();
+        } catch (error) {
+            console.error('Failed to delete from trash:', error);
+            vscode.window.showErrorMessage(`Failed to delete ${item.entry.originalPath}: ${error}`);
+        }
+    }
+
+    async empty(): Promise<void> {
+        const provider = this.fileExplorerProvider;
+        if (!provider.getAxiosInstance()) {
+            vscode.window.showErrorMessage('Not connected to Jupyter Server.');
+            return;
+        }
+
+        let entries: TrashEntry[];
+        try {
+            entries = await provider.trash.list();
+        } catch (error) {
+            vscode.window.showErrorMessage(`Failed to list the trash: ${error}`);
+            return;
+        }
+        if (entries.length === 0) {
+            vscode.window.showInformationMessage('The trash is empty.');
+            return;
+        }
+
+        const result = await vscode.window.showWarningMessage(
+            `Permanently delete all ${entries.length} item(s) in the trash of ${provider.getConnectionName()}? This cannot be undone.`,
+            { modal: true },
+            'Empty Trash'
+        );
+        if (result !== 'Empty Trash') {
+            return;
+        }
+
+        const failures: string[] = [];
+        await vscode.window.withProgress({
+            location: vscode.ProgressLocation.Notification,
+            title: 'Emptying trash...',
+            cancellable: true
+        }, async (progress, token) => {
+            for (const entry of entries) {
+                if (token.isCancellationRequested) {
+                    break;
+                }
+                progress.report({ increment: 100 / entries.length, message: entry.originalPath });
+                try {
+                    await provider.trash.deletePermanently(entry);
+                } catch (error) {
+                    failures.push(`${entry.originalPath}: ${error instanceof Error ? error.message : error}`);
+                }
+            }
+        });
+
+        this.refresh();
+        if (failures.length > 0) {
+            vscode.window.showErrorMessage(`Failed to delete ${failures.length} item(s) from the trash:\n${failures.slice(0, 10).join('\n')}`);
+        }
+    }
+}
+
+export class TrashItem extends vscode.TreeItem {
+    constructor(public readonly entry: TrashEntry) {
+        super(entry.originalPath.split('/').pop() || entry.name, vscode.TreeItemCollapsibleState.None);
+
+        const separator = entry.originalPath.lastIndexOf('/');
+        const deletedAt = new Date(entry.deletedAt);
+        this.description = separator === -1 ? '/' : `/${entry.originalPath.substring(0, separator)}`;
+        this.tooltip = `${entry.originalPath}\nDeleted: ${isNaN(deletedAt.getTime()) ? 'unknown' : deletedAt.toLocaleString()}`;
+        this.iconPath = entry.type === 'directory' ? vscode.ThemeIcon.Folder : vscode.ThemeIcon.File;
+        this.contextValue = 'trashItem';
+    }
+}
@@ -0,0 +1,556 @@
+import * as vscode from 'vscode';
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as path from 'path';
+import { FileExplorerProvider, FileItem } from './FileExplorer';
+import { ConnectionManager } from './ConnectionManager';
+import { matchesAnyGlob } from './glob';
+
+type SyncMode = 'push' | 'pull' | 'two-way';
+
+export interface SyncMapping {
+    connection: string;
+    localPath: string;
+    remotePath: string;
+    mode?: SyncMode;
+    ignore?: string[];
+}
+
+interface FileState {
+    size: number;
+    mtime: number;
+}
+
+// What both sides looked like after the last sync, by path relative to the mapping roots
+type SyncState = { [relativePath: string]: { local: FileState; remote: FileState } };
+
+interface SyncAction {
+    type: 'upload' | 'download' | 'deleteLocal' | 'deleteRemote' | 'conflict';
+    path: string;
+    local?: FileState;
+    remote?: FileState;
+}
+
+const actionLabels: { [type: string]: string } = {
+    upload: '$(arrow-up) Upload',
+    download: '$(arrow-down) Download',
+    deleteLocal: '$(trash) Delete local',
+    deleteRemote: '$(trash) Delete remote',
+    conflict: '$(warning) Conflict'
+};
+
+/**
+ * Syncs a local folder with a remote directory. Changes are detected from size and
+ * modification time; the state recorded after each sync tells, in two-way mode,
+ * which side changed and which files were deleted.
+ */
+export class SyncManager {
+    constructor(
+        private connectionManager: ConnectionManager,
+        private globalState: vscode.Memento
+    ) {}
+
+    async addMapping(item?: FileItem): Promise<void> {
+        const provider = this.connectionManager.providerFor(item);
+        const connection = provider.getConnectionName();
+        if (!provider.getAxiosInstance() || !connection) {
+            vscode.window.showErrorMessage('Not connected to Jupyter Server.');
+            return;
+        }
+
+        const remotePath = item ? item.uri : await vscode.window.showInputBox({
+            prompt: 'Remote directory to sync (relative to the connection root)',
+            value: '/',
+            ignoreFocusOut: true
+        });
+        if (remotePath === undefined) {
+            return;
+        }
+
+        const localFolder = await vscode.window.showOpenDialog({
+            canSelectFiles: false,
+            canSelectFolders: true,
+            canSelectMany: false,
+            defaultUri: vscode.workspace.workspaceFolders?.[0]?.uri,
+            openLabel: 'Sync with This Folder'
+        });
+        if (!localFolder || localFolder.length === 0) {
+            return;
+        }
+
+        const mode = await this.pickMode('two-way');
+        if (!mode) {
+            return;
+        }
+
+        const mapping: SyncMapping = {
+            connection,
+            localPath: localFolder[0].fsPath,
+            remotePath: this.cleanRemotePath(remotePath),
+            mode
+        };
+
+        const config = vscode.workspace.getConfiguration('jupyterFileExplorer');
+        const mappings = config.get<SyncMapping[]>('syncMappings') || [];
+        if (mappings.some(m => this.mappingKey(m) === this.mappingKey(mapping))) {
+            vscode.window.showInformationMessage('This folder is already synced with that remote directory.');
+            return;
+        }
+        mappings.push(mapping);
+        await config.update('syncMappings', mappings, vscode.ConfigurationTarget.Global);
+
+        const result = await vscode.window.showInformationMessage(
+            `Sync mapping added: ${mapping.localPath} ↔ /${mapping.remotePath}`,
+            'Sync Now'
+        );
+        if (result === 'Sync Now') {
+            await this.syncNow(undefined, mapping);
+        }
+    }
+
+    async removeMapping(): Promise<void> {
+        const mapping = await this.pickMapping(vscode.workspace.getConfiguration('jupyterFileExplorer').get<SyncMapping[]>('syncMappings') || []);
+        if (!mapping) {
+            return;
+        }
+
+        const config = vscode.workspace.getConfiguration('jupyterFileExplorer');
+        const mappings = (config.get<SyncMapping[]>('syncMappings') || []).filter(m => this.mappingKey(m) !== this.mappingKey(mapping));
+        await config.update('syncMappings', mappings, vscode.ConfigurationTarget.Global);
+        await this.globalState.update(this.stateKey(mapping), undefined);
+        vscode.window.showInformationMessage(`Sync mapping for ${mapping.localPath} removed.`);
+    }
+
+    async syncNow(item?: FileItem, mapping?: SyncMapping): Promise<void> {
+        if (!mapping) {
+            const connection = this.connectionManager.providerFor(item).getConnectionName();
+            if (!connection) {
+                vscode.window.showErrorMessage('Not connected to Jupyter Server.');
+                return;
+            }
+            const config = vscode.workspace.getConfiguration('jupyterFileExplorer');
+            let mappings = (config.get<SyncMapping[]>('syncMappings') || []).filter(m => m.connection === connection);
+            if (item) {
+                mappings = mappings.filter(m => m.remotePath === this.cleanRemotePath(item.uri));
+            }
+            if (mappings.length === 0) {
+                const result = await vscode.window.showInformationMessage(
+                    `No sync mappings for ${item ? item.label : connection}.`,
+                    'Add Sync Mapping'
+                );
+                if (result === 'Add Sync Mapping') {
+                    await this.addMapping(item);
+                }
+                return;
+            }
+            mapping = await this.pickMapping(mappings);
+            if (!mapping) {
+                return;
+            }
+        }
+
+        // Mappings belong to a connection, which has to be open to sync
+        const provider = this.connectionManager.get(mapping.connection);
+        if (!provider || !provider.getAxiosInstance()) {
+            vscode.window.showErrorMessage(`Connect to ${mapping.connection} to sync ${path.basename(mapping.localPath)}.`);
+            return;
+        }
+
+        const mode = await this.pickMode(mapping.mode || 'two-way');
+        if (!mode) {
+            return;
+        }
+
+        try {
+            const plan = await vscode.window.withProgress({
+                location: vscode.ProgressLocation.Notification,
+                title: 'Comparing local and remote files...',
+                cancellable: true
+            }, (progress, token) => this.planSync(provider, mapping!, mode, token));
+            if (!plan) {
+                return;
+            }
+
+            if (plan.actions.length === 0) {
+                await this.globalState.update(this.stateKey(mapping), plan.state);
+                vscode.window.showInformationMessage(`${path.basename(mapping.localPath)} is already in sync.`);
+                return;
+            }
+
+            const approved = await this.previewPlan(mapping, plan.actions);
+            if (!approved) {
+                return;
+            }
+
+            const actions = await this.resolveConflicts(provider, mapping, approved);
+            if (!actions) {
+                return;
+            }
+
+            await this.applyPlan(provider, mapping, actions, plan.state);
+        } catch (error) {
+            if (error instanceof vscode.CancellationError) {
+                return;
+            }
+            console.error('Sync failed:', error);
+            vscode.window.showErrorMessage(`Sync failed: ${error}`);
+        }
+    }
+
+    private async planSync(
+        provider: FileExplorerProvider,
+        mapping: SyncMapping,
+        mode: SyncMode,
+        token: vscode.CancellationToken
+    ): Promise<{ actions: SyncAction[]; state: SyncState } | undefined> {
+        const config = vscode.workspace.getConfiguration('jupyterFileExplorer');
+        const ignore = [...config.get<string[]>('syncIgnore', []), ...(mapping.ignore || [])];
+
+        const localFiles = new Map<string, FileState>();
+        await this.listLocal(mapping.localPath, '', ignore, localFiles, token);
+        const remoteFiles = new Map<string, FileState>();
+        await this.listRemote(provider, mapping.remotePath, '', ignore, remoteFiles, token);
+        if (token.isCancellationRequested) {
+            return undefined;
+        }
+
+        const previous: SyncState = this.globalState.get<SyncState>(this.stateKey(mapping)) || {};
+        const state: SyncState = {};
+        const actions: SyncAction[] = [];
+
+        const allPaths = new Set<string>([...localFiles.keys(), ...remoteFiles.keys(), ...Object.keys(previous)]);
+        for (const relativePath of Array.from(allPaths).sort()) {
+            const local = localFiles.get(relativePath);
+            const remote = remoteFiles.get(relativePath);
+            const base = previous[relativePath];
+
+            const localChanged = base ? !this.sameState(local, base.local) : !!local;
+            const remoteChanged = base ? !this.sameState(remote, base.remote) : !!remote;
+
+            if (local && remote && !localChanged && !remoteChanged) {
+                state[relativePath] = base;
+                continue;
+            }
+
+            let type: SyncAction['type'] | undefined;
+            if (local && remote && !base) {
+                // Never synced: files with the same content are recorded as synced, otherwise
+                // push and pull overwrite and two-way asks
+                const localPath = path.join(mapping.localPath, ...relativePath.split('/'));
+                if (local.size === remote.size && await this.sameContent(provider, localPath, this.joinRemote(mapping.remotePath, relativePath))) {
+                    state[relativePath] = { local, remote };
+                    continue;
+                }
+                type = mode === 'push' ? 'upload' : mode === 'pull' ? 'download' : 'conflict';
+            } else if (mode === 'push') {
+                if (local && (localChanged || !remote)) {
+                    type = base && remote && remoteChanged ? 'conflict' : 'upload';
+                }
+            } else if (mode === 'pull') {
+                if (remote && (remoteChanged || !local)) {
+                    type = base && local && localChanged ? 'conflict' : 'download';
+                }
+            } else if (localChanged && remoteChanged) {
+                // Deleted on both sides needs no action
+                type = local || remote ? 'conflict' : undefined;
+            } else if (localChanged) {
+                type = local ? 'upload' : 'deleteRemote';
+            } else if (remoteChanged) {
+                type = remote ? 'download' : 'deleteLocal';
+            }
+
+            if (type) {
+                actions.push({ type, path: relativePath, local, remote });
+            }
+            if (base && (local || remote)) {
+                // Files left alone keep their old state, so the change is still seen next time
+                state[relativePath] = base;
+            }
+        }
+
+        return { actions, state };
+    }
+
+    private async previewPlan(mapping: SyncMapping, actions: SyncAction[]): Promise<SyncAction[] | undefined> {
+        const items = actions.map(action => ({
+            label: `${actionLabels[action.type]}: ${action.path}`,
+            description: action.type === 'conflict' ? 'changed on both sides' : this.describeChange(action),
+            picked: true,
+            action
+        }));
+
+        const picked = await vscode.window.showQuickPick(items, {
+            canPickMany: true,
+            ignoreFocusOut: true,
+            placeHolder: `${actions.length} change(s) between ${path.basename(mapping.localPath)} and /${mapping.remotePath}. Uncheck anything you want to skip, then press Enter`
+        });
+        return picked && picked.length > 0 ? picked.map(item => item.action) : undefined;
+    }
+
+    private async resolveConflicts(provider: FileExplorerProvider, mapping: SyncMapping, actions: SyncAction[]): Promise<SyncAction[] | undefined> {
+        const resolved: SyncAction[] = [];
+        for (const action of actions) {
+            if (action.type !== 'conflict') {
+                resolved.push(action);
+                continue;
+            }
+
+            while (true) {
+                const choice = await vscode.window.showQuickPick([
+                    { label: 'Keep Local', description: action.local ? 'upload the local file' : 'delete the remote file' },
+                    { label: 'Keep Remote', description: action.remote ? 'download the remote file' : 'delete the local file' },
+                    { label: 'Compare', description: 'open both versions side by side' },
+                    { label: 'Skip', description: 'leave both files as they are' }
+                ], { placeHolder: `${action.path} changed locally and on the server`, ignoreFocusOut: true });
+
+                if (!choice) {
+                    return undefined;
+                }
+                if (choice.label === 'Compare') {
+                    await this.compare(provider, mapping, action);
+                    continue;
+                }
+                if (choice.label === 'Keep Local') {
+                    resolved.push({ ...action, type: action.local ? 'upload' : 'deleteRemote' });
+                } else if (choice.label === 'Keep Remote') {
+                    resolved.push({ ...action, type: action.remote ? 'download' : 'deleteLocal' });
+                }
+                break;
+            }
+        }
+        return resolved;
+    }
+
+    private async compare(provider: FileExplorerProvider, mapping: SyncMapping, action: SyncAction): Promise<void> {
+        if (!action.local || !action.remote) {
+            vscode.window.showInformationMessage(`${action.path} was deleted on one side, there is nothing to compare.`);
+            return;
+        }
+        await vscode.commands.executeCommand(
+            'vscode.diff',
+            provider.toRemoteUri(this.joinRemote(mapping.remotePath, action.path), 'jupyter-remote-server'),
+            vscode.Uri.file(path.join(mapping.localPath, ...action.path.split('/'))),
+            `${path.basename(action.path)} (server) ↔ ${path.basename(action.path)} (local)`
+        );
+    }
+
+    private async applyPlan(provider: FileExplorerProvider, mapping: SyncMapping, actions: SyncAction[], state: SyncState): Promise<void> {
+        const failures: string[] = [];
+        const remoteDirectories = new Set<string>();
+        let completed = 0;
+
+        await vscode.window.withProgress({
+            location: vscode.ProgressLocation.Notification,
+            title: `Syncing ${path.basename(mapping.localPath)}`,
+            cancellable: true
+        }, async (progress, token) => {
+            for (const action of actions) {
+                if (token.isCancellationRequested) {
+                    break;
+                }
+                progress.report({ increment: 100 / actions.length, message: action.path });
+
+                const localPath = path.join(mapping.localPath, ...action.path.split('/'));
+                const remotePath = this.joinRemote(mapping.remotePath, action.path);
+                try {
+                    switch (action.type) {
+                        case 'upload':
+                            await this.ensureRemoteDirectory(provider, path.posix.dirname(remotePath), remoteDirectories);
+                            await provider.uploadSingleFile(localPath, path.posix.dirname(`/${remotePath}`));
+                            state[action.path] = { local: await this.statLocal(localPath), remote: await this.statRemote(provider, remotePath) };
+                            break;
+                        case 'download':
+                            await fs.promises.mkdir(path.dirname(localPath), { recursive: true });
+                            await provider.downloadToLocalFile(remotePath, localPath, token);
+                            state[action.path] = { local: await this.statLocal(localPath), remote: action.remote! };
+                            break;
+                        case 'deleteRemote':
+                            await provider.delete(provider.toRemoteUri(remotePath), { recursive: false });
+                            delete state[action.path];
+                            break;
+                        case 'deleteLocal':
+                            await fs.promises.unlink(localPath);
+                            delete state[action.path];
+                            break;
+                    }
+                    completed++;
+                } catch (error) {
+                    if (error instanceof vscode.CancellationError) {
+                        break;
+                    }
+                    console.error(`Failed to sync ${action.path}:`, error);
+                    failures.push(`${action.path}: ${error instanceof Error ? error.message : error}`);
+                }
+            }
+        });
+
+        await this.globalState.update(this.stateKey(mapping), state);
+        provider.refresh();
+
+        if (failures.length > 0) {
+            vscode.window.showErrorMessage(
+                `Synced ${completed} of ${actions.length} change(s). ${failures.length} failed:\n${failures.slice(0, 10).join('\n')}${failures.length > 10 ? '\n...' : ''}`
+            );
+        } else {
+            vscode.window.showInformationMessage(`Synced ${completed} change(s) for ${path.basename(mapping.localPath)}.`);
+        }
+    }
+
+    private async ensureRemoteDirectory(provider: FileExplorerProvider, dirPath: string, known: Set<string>): Promise<void> {
+        if (dirPath === '.' || dirPath === '' || known.has(dirPath)) {
+            return;
+        }
+        await this.ensureRemoteDirectory(provider, path.posix.dirname(dirPath), known);
+
+        const response = await provider.getAxiosInstance()!.get(`api/contents/${dirPath}?content=0`);
+        if (response.status === 404) {
+            await provider.createDirectory(provider.toRemoteUri(dirPath));
+        }
+        known.add(dirPath);
+    }
+
+    private async listLocal(root: string, relativeDir: string, ignore: string[], files: Map<string, FileState>, token: vscode.CancellationToken): Promise<void> {
+        let entries: fs.Dirent[];
+        try {
+            entries = await fs.promises.readdir(path.join(root, ...relativeDir.split('/')), { withFileTypes: true });
+        } catch (error: any) {
+            if (error.code === 'ENOENT' && !relativeDir) {
+                // A missing local folder is created by the first pull
+                return;
+            }
+            throw error;
+        }
+
+        for (const entry of entries) {
+            if (token.isCancellationRequested) {
+                return;
+            }
+            const relativePath = relativeDir ? `${relativeDir}/${entry.name}` : entry.name;
+            if (matchesAnyGlob(relativePath, ignore)) {
+                continue;
+            }
+            if (entry.isDirectory()) {
+                await this.listLocal(root, relativePath, ignore, files, token);
+            } else if (entry.isFile()) {
+                files.set(relativePath, await this.statLocal(path.join(root, ...relativePath.split('/'))));
+            }
+        }
+    }
+
+    private async listRemote(provider: FileExplorerProvider, root: string, relativeDir: string, ignore: string[], files: Map<string, FileState>, token: vscode.CancellationToken): Promise<void> {
+        const axiosInstance = provider.getAxiosInstance();
+        if (!axiosInstance || token.isCancellationRequested) {
+            return;
+        }
+
+        const response = await axiosInstance.get(`api/contents/${this.joinRemote(root, relativeDir)}`);
+        if (response.status === 404 && !relativeDir) {
+            // A missing remote directory is created by the first push
+            return;
+        }
+        if (response.status >= 400 || !Array.isArray(response.data?.content)) {
+            throw new Error(`Failed to list /${this.joinRemote(root, relativeDir)}: ${response.status} - ${response.data?.message || response.statusText}`);
+        }
+
+        for (const child of response.data.content) {
+            const relativePath = relativeDir ? `${relativeDir}/${child.name}` : child.name;
+            if (matchesAnyGlob(relativePath, ignore)) {
+                continue;
+            }
+            if (child.type === 'directory') {
+                await this.listRemote(provider, root, relativePath, ignore, files, token);
+            } else {
+                files.set(relativePath, { size: child.size ?? -1, mtime: Date.parse(child.last_modified) });
+            }
+        }
+    }
+
+    private async statLocal(localPath: string): Promise<FileState> {
+        const stat = await fs.promises.stat(localPath);
+        return { size: stat.size, mtime: Math.floor(stat.mtimeMs) };
+    }
+
+    private async statRemote(provider: FileExplorerProvider, remotePath: string): Promise<FileState> {
+        const response = await provider.getAxiosInstance()!.get(`api/contents/${remotePath}?content=0`);
+        if (response.status >= 400) {
+            throw new Error(`${response.status} - ${response.data?.message || response.statusText}`);
+        }
+        return { size: response.data.size ?? -1, mtime: Date.parse(response.data.last_modified) };
+    }
+
+    // Servers without content hashes (jupyter_server before 2.11) can't tell, so the files count as different
+    private async sameContent(provider: FileExplorerProvider, localPath: string, remotePath: string): Promise<boolean> {
+        const response = await provider.getAxiosInstance()!.get(`api/contents/${remotePath}?content=0&hash=1`);
+        const algorithm: string | undefined = response.data?.hash_algorithm;
+        if (response.status >= 400 || !response.data?.hash || !algorithm || crypto.getHashes().indexOf(algorithm) < 0) {
+            return false;
+        }
+
+        const hash = crypto.createHash(algorithm);
+        await new Promise<void>((resolve, reject) => {
+            fs.createReadStream(localPath)
+                .on('data', chunk => hash.update(chunk))
+                .on('end', () => resolve())
+                .on('error', reject);
+        });
+        return hash.digest('hex') === response.data.hash;
+    }
+
+    private sameState(current: FileState | undefined, recorded: FileState | undefined): boolean {
+        if (!current || !recorded) {
+            return !current && !recorded;
+        }
+        return current.size === recorded.size && current.mtime === recorded.mtime;
+    }
+
+    private describeChange(action: SyncAction): string {
+        const describe = (state?: FileState) => state ? `${state.size >= 0 ? state.size + ' B, ' : ''}${new Date(state.mtime).toLocaleString()}` : 'missing';
+        return `local: ${describe(action.local)} • remote: ${describe(action.remote)}`;
+    }
+
+    private async pickMode(defaultMode: SyncMode): Promise<SyncMode | undefined> {
+        const modes: { label: string; description: string; mode: SyncMode }[] = [
+            { label: 'Two-way', description: 'copy changes in both directions, including deletions', mode: 'two-way' },
+            { label: 'Push', description: 'upload local changes to the server', mode: 'push' },
+            { label: 'Pull', description: 'download remote changes to the local folder', mode: 'pull' }
+        ];
+        const ordered = [...modes.filter(m => m.mode === defaultMode), ...modes.filter(m => m.mode !== defaultMode)];
+
+        const picked = await vscode.window.showQuickPick(ordered, { placeHolder: 'Sync mode' });
+        return picked?.mode;
+    }
+
+    private async pickMapping(mappings: SyncMapping[]): Promise<SyncMapping | undefined> {
+        if (mappings.length === 0) {
+            vscode.window.showInformationMessage('No sync mappings found.');
+            return undefined;
+        }
+        if (mappings.length === 1) {
+            return mappings[0];
+        }
+
+        const picked = await vscode.window.showQuickPick(mappings.map(mapping => ({
+            label: `${path.basename(mapping.localPath)} ↔ /${mapping.remotePath}`,
+            description: `${mapping.connection} • ${mapping.mode || 'two-way'}`,
+            detail: mapping.localPath,
+            mapping
+        })), { placeHolder: 'Select a sync mapping' });
+        return picked?.mapping;
+    }
+
+    private cleanRemotePath(remotePath: string): string {
+        return remotePath.replace(/^\/+|\/+$/g, '');
+    }
+
+    private joinRemote(root: string, relativePath: string): string {
+        return [root, relativePath].filter(part => part).join('/');
+    }
+
+    private mappingKey(mapping: SyncMapping): string {
+        return `${mapping.connection}:${mapping.remotePath}:${mapping.localPath}`;
+    }
+
+    private stateKey(mapping: SyncMapping): string {
+        return `jupyterFileExplorer.syncState.${this.mappingKey(mapping)}`;
+    }
+}
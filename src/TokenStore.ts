@@ -0,0 +1,61 @@
+import * as vscode from 'vscode';
+
+interface ConnectionTokenFields {
+    name: string;
+    token?: string;
+    tokenRef?: string;
+}
+
+/**
+ * Keeps connection tokens in VS Code's SecretStorage. Settings only hold a `tokenRef`
+ * pointing at the secret, so settings.json can be synced or shared safely.
+ */
+export class TokenStore {
+    constructor(private secrets: vscode.SecretStorage) {}
+
+    static refFor(connectionName: string): string {
+        return `jupyterFileExplorer.token.${connectionName}`;
+    }
+
+    async getToken(connection: ConnectionTokenFields): Promise<string | undefined> {
+        // Plaintext tokens written by hand in settings.json still take precedence
+        if (connection.token) {
+            return connection.token;
+        }
+        if (connection.tokenRef) {
+            return this.secrets.get(connection.tokenRef);
+        }
+        return this.secrets.get(TokenStore.refFor(connection.name));
+    }
+
+    async storeToken<T extends ConnectionTokenFields>(connection: T, token: string): Promise<T> {
+        const tokenRef = connection.tokenRef || TokenStore.refFor(connection.name);
+        await this.secrets.store(tokenRef, token);
+
+        const stored = { ...connection, tokenRef };
+        delete stored.token;
+        return stored;
+    }
+
+    async deleteToken(connection: ConnectionTokenFields): Promise<void> {
+        await this.secrets.delete(connection.tokenRef || TokenStore.refFor(connection.name));
+    }
+
+    /**
+     * Moves plaintext tokens from the user's connection settings into SecretStorage.
+     */
+    async migratePlaintextTokens(): Promise<void> {
+        const config = vscode.workspace.getConfiguration('jupyterFileExplorer');
+        const connections = config.inspect<ConnectionTokenFields[]>('connections')?.globalValue;
+        if (connections && connections.some(c => c.token)) {
+            const migrated = await Promise.all(connections.map(c => c.token ? this.storeToken(c, c.token) : c));
+            await config.update('connections', migrated, vscode.ConfigurationTarget.Global);
+            console.log(`Migrated ${connections.filter(c => c.token).length} connection token(s) to secret storage`);
+        }
+
+        const lastConnection = config.inspect<ConnectionTokenFields>('lastConnection')?.globalValue;
+        if (lastConnection && lastConnection.token) {
+            await config.update('lastConnection', await this.storeToken(lastConnection, lastConnection.token), vscode.ConfigurationTarget.Global);
+        }
+    }
+}
@@ -1,40 +1,175 @@
 import * as vscode from 'vscode';
+import * as cp from 'child_process';
 import { FileExplorerProvider, JupyterContentProvider, FileItem } from './FileExplorer';
+import { ConnectionManager, ExplorerNode } from './ConnectionManager';
+import { KernelsProvider, KernelItem } from './KernelsView';
+import { RemoteTerminalManager } from './RemoteTerminal';
+import { RemoteRunner } from './RemoteRunner';
+import { NotebookExporter } from './NotebookExport';
+import { HubClient } from './HubClient';
+import { TokenStore } from './TokenStore';
+import { HubLogin } from './HubLogin';
+import { RemoteFileIndex } from './RemoteFileIndex';
+import { RemoteSearchProvider, SearchMatchItem } from './RemoteSearch';
+import { SyncManager } from './SyncManager';
+import { TrashProvider, TrashItem } from './RemoteTrash';
+import { RemoteNotebookSerializer, REMOTE_NOTEBOOK_TYPE } from './NotebookSerializer';
 
 interface Connection {
     name: string;
     url: string;
-    token: string;
+    token?: string; // Plaintext token, only for connections edited by hand in settings.json
+    tokenRef?: string; // Key of the token in SecretStorage
     remotePath: string;
+    hubUrl?: string;
+    username?: string;
+    serverName?: string; // JupyterHub named server ('' is the default server)
+    oauthClientId?: string; // OAuth client of a hub service, enables browser sign-in
+    tokenCommand?: string; // Shell command printing a fresh token, run when the token is rejected
+}
+
+// Reconnect state of each open connection, by connection name
+interface Session {
+    connection: Connection;
+    connected: boolean; // Connected successfully at least once, so worth reconnecting to
+    reconnectAttempts: number;
+    reconnectTimer?: NodeJS.Timeout;
 }
 
 // Module-level variables for cleanup
-let fileExplorerProvider: FileExplorerProvider;
-let reconnectTimer: NodeJS.Timeout | undefined;
-let reconnectAttempts = 0;
-let lastConnection: Connection | undefined;
+let connectionManager: ConnectionManager;
+const sessions = new Map<string, Session>();
 let healthCheckInterval: NodeJS.Timeout | undefined;
 
+// Runs a user-configured command (e.g. a password manager CLI) and returns the token it prints
+function runTokenCommand(command: string): Promise<string> {
+    return new Promise((resolve, reject) => {
+        cp.exec(command, { timeout: 30000 }, (error, stdout) => {
+            if (error) {
+                reject(error);
+                return;
+            }
+            const token = stdout.trim();
+            if (token) {
+                resolve(token);
+            } else {
+                reject(new Error('Command printed no token'));
+            }
+        });
+    });
+}
+
 export function activate(context: vscode.ExtensionContext) {
-    fileExplorerProvider = new FileExplorerProvider();
-    const jupyterContentProvider = new JupyterContentProvider(fileExplorerProvider);
+    connectionManager = new ConnectionManager();
+    const tokenStore = new TokenStore(context.secrets);
+
+    // Move tokens saved by older versions out of settings.json
+    tokenStore.migratePlaintextTokens().catch(error => {
+        console.error('Failed to migrate connection tokens to secret storage:', error);
+    });
+    const jupyterContentProvider = new JupyterContentProvider(uri => connectionManager.providerForUri(uri));
+
+    // Receives OAuth redirects back from JupyterHub
+    const hubLogin = new HubLogin(context.extension.id, context.secrets);
+    context.subscriptions.push(vscode.window.registerUriHandler(hubLogin));
 
     const treeView = vscode.window.createTreeView('jupyterFileExplorer', { 
-        treeDataProvider: fileExplorerProvider,
-        dragAndDropController: fileExplorerProvider
+        treeDataProvider: connectionManager,
+        dragAndDropController: connectionManager,
+        canSelectMany: true
+    });
+
+    // Commands without a tree item act on the connection last selected in the tree
+    treeView.onDidChangeSelection(event => {
+        const node = event.selection[0];
+        if (node) {
+            const name = connectionManager.providerFor(node).getConnectionName();
+            if (name) {
+                connectionManager.setActive(name);
+            }
+        }
+    });
+
+    // Tree items carry their connection; a connection's root node stands for its top directory
+    const providerFor = (node?: ExplorerNode) => connectionManager.providerFor(node);
+    const fileItem = (node?: ExplorerNode) => node instanceof FileItem ? node : undefined;
+
+    // Menu commands get the clicked item and the whole selection; keybindings get neither,
+    // so they fall back to the tree selection. Batches stay within one connection.
+    const withSelection = (
+        item: ExplorerNode | undefined,
+        items: readonly ExplorerNode[] | undefined,
+        run: (provider: FileExplorerProvider, selected: FileItem[]) => unknown
+    ) => {
+        const nodes = items && items.length > 0 ? items : item ? [item] : treeView.selection;
+        const selected = nodes.filter((node): node is FileItem => node instanceof FileItem);
+        if (selected.length === 0) {
+            return;
+        }
+        if (selected.some(node => node.connectionId !== selected[0].connectionId)) {
+            vscode.window.showErrorMessage('Select items from a single connection.');
+            return;
+        }
+        return run(providerFor(selected[0]), selected);
+    };
+
+    const kernelsProvider = new KernelsProvider(connectionManager);
+    const kernelsView = vscode.window.createTreeView('jupyterKernels', {
+        treeDataProvider: kernelsProvider
+    });
+    context.subscriptions.push(kernelsView);
+
+    // Kernel states change on the server, so re-read them whenever the view is shown
+    kernelsView.onDidChangeVisibility(event => {
+        if (event.visible) {
+            kernelsProvider.refresh();
+        }
     });
 
+    connectionManager.onDidChangeActive(() => kernelsProvider.refresh());
+
+    const remoteTerminalManager = new RemoteTerminalManager(connectionManager);
+    context.subscriptions.push(remoteTerminalManager);
+
+    const remoteRunner = new RemoteRunner(connectionManager);
+    context.subscriptions.push(remoteRunner);
+
+    const notebookExporter = new NotebookExporter(connectionManager);
+
+    const remoteFileIndex = new RemoteFileIndex(connectionManager);
+    context.subscriptions.push(remoteFileIndex);
+
+    const syncManager = new SyncManager(connectionManager, context.globalState);
+
+    const remoteSearchProvider = new RemoteSearchProvider(connectionManager, remoteFileIndex);
+    context.subscriptions.push(vscode.window.createTreeView('jupyterSearchResults', {
+        treeDataProvider: remoteSearchProvider
+    }));
+
+    const trashProvider = new TrashProvider(connectionManager);
+    context.subscriptions.push(vscode.window.createTreeView('jupyterTrash', {
+        treeDataProvider: trashProvider
+    }));
+
     // Initialize context for extension
     vscode.commands.executeCommand('setContext', 'jupyterFileExplorer.connected', false);
 
+    const updateConnectedContext = () => {
+        const connected = connectionManager.getProviders().some(provider => !!provider.getAxiosInstance());
+        vscode.commands.executeCommand('setContext', 'jupyterFileExplorer.connected', connected);
+    };
+
     // Listen for connection loss events
-    fileExplorerProvider.onConnectionLost(() => {
+    connectionManager.onConnectionLost(connectionName => {
         const config = vscode.workspace.getConfiguration('jupyterFileExplorer');
         const autoReconnect = config.get<boolean>('autoReconnect', true);
+        const session = sessions.get(connectionName);
         
-        if (autoReconnect && lastConnection) {
-            console.log('Connection lost event received, initiating auto-reconnect...');
-            connectToJupyter(lastConnection);
+        if (autoReconnect && session) {
+            console.log(`Connection to ${connectionName} lost, initiating auto-reconnect...`);
+            connectToJupyter(session.connection);
+        } else {
+            connectionManager.setStatus(connectionName, 'disconnected');
         }
     });
 
@@ -45,11 +180,15 @@ export function activate(context: vscode.ExtensionContext) {
         
         if (enableHealthChecks && !healthCheckInterval) {
             healthCheckInterval = setInterval(async () => {
-                if (fileExplorerProvider && lastConnection) {
+                for (const connectionName of connectionManager.getConnectionNames()) {
+                    const provider = connectionManager.get(connectionName);
+                    if (!provider || !sessions.has(connectionName)) {
+                        continue;
+                    }
                     try {
-                        const isHealthy = await fileExplorerProvider.checkConnectionHealth();
+                        const isHealthy = await provider.checkConnectionHealth();
                         if (!isHealthy) {
-                            console.log('Health check failed, connection may be lost');
+                            console.log(`Health check failed, connection to ${connectionName} may be lost`);
                         }
                     } catch (error) {
                         console.warn('Health check error (non-critical):', error);
@@ -62,33 +201,111 @@ export function activate(context: vscode.ExtensionContext) {
     // Start health checks
     startHealthChecks();
 
+    // Resolves a connection's token, asking for it when the secret store has none
+    const getConnectionToken = async (connection: Connection): Promise<string | undefined> => {
+        const token = await tokenStore.getToken(connection);
+        if (token) {
+            return token;
+        }
+
+        const enteredToken = await vscode.window.showInputBox({
+            prompt: `Enter Jupyter Token for ${connection.name}`,
+            password: true,
+            ignoreFocusOut: true
+        });
+        if (enteredToken) {
+            await tokenStore.storeToken(connection, enteredToken);
+        }
+        return enteredToken;
+    };
+
+    // Stores a new token for a connection and drops any plaintext token it had in settings
+    const saveConnectionToken = async (connection: Connection, token: string): Promise<Connection> => {
+        const updated = await tokenStore.storeToken(connection, token);
+
+        // A plaintext token left in settings.json would still win over the new one
+        const config = vscode.workspace.getConfiguration('jupyterFileExplorer');
+        const connections = config.inspect<Connection[]>('connections')?.globalValue || [];
+        if (connections.some(c => c.name === connection.name && c.token)) {
+            await config.update('connections', connections.map(c => c.name === connection.name ? { ...c, token: undefined, tokenRef: updated.tokenRef } : c), vscode.ConfigurationTarget.Global);
+        }
+        return updated;
+    };
+
+    // Runs the interactive JupyterHub sign-in and stores the token it produces
+    const signInToHub = async (connection: Connection): Promise<Connection | undefined> => {
+        let token: string | undefined;
+        try {
+            token = await hubLogin.login(connection.hubUrl!, connection.oauthClientId);
+        } catch (error) {
+            vscode.window.showErrorMessage(`Failed to sign in to ${connection.name}: ${error}`);
+            return undefined;
+        }
+        return token ? saveConnectionToken(connection, token) : undefined;
+    };
+
     const connectToJupyter = async (connection: Connection) => {
+        const session = sessions.get(connection.name) || { connection, connected: false, reconnectAttempts: 0 };
+        session.connection = connection;
+        sessions.set(connection.name, session);
+
+        const fileExplorerProvider = connectionManager.getOrCreate(connection.name);
+        fileExplorerProvider.setTokenRefresher(() => refreshConnectionToken(connection.name));
+        connectionManager.setStatus(connection.name, session.reconnectAttempts > 0 ? 'reconnecting' : 'connecting');
+
         try {
-            await fileExplorerProvider.setConnection(connection.url, connection.token, connection.remotePath || '/', connection.name);
+            const token = await getConnectionToken(connection);
+            if (!token) {
+                throw new Error(`No token available for ${connection.name}`);
+            }
+
+            // Hub connections first make sure the user's server is running (it may have been culled)
+            if (connection.hubUrl && connection.username) {
+                const hubClient = new HubClient(connection.hubUrl, connection.username, token);
+                await hubClient.ensureServerRunning(connection.serverName || '');
+
+                if (connection.serverName !== undefined) {
+                    // A picked server's URL replaces the hand-written remote path
+                    const serverUrl = await hubClient.getServerUrl(connection.serverName);
+                    await fileExplorerProvider.setConnection(serverUrl, token, '/', connection.name);
+                } else {
+                    await fileExplorerProvider.setConnection(connection.url, token, connection.remotePath || '/', connection.name);
+                }
+            } else {
+                await fileExplorerProvider.setConnection(connection.url, token, connection.remotePath || '/', connection.name);
+            }
             const axiosInstance = fileExplorerProvider.getAxiosInstance();
             if (axiosInstance) {
-                vscode.commands.executeCommand('setContext', 'jupyterFileExplorer.connected', true);
+                connectionManager.setStatus(connection.name, 'connected');
+                connectionManager.setActive(connection.name);
+                updateConnectedContext();
                 vscode.window.showInformationMessage(`Connected to ${connection.name}.`);
-                treeView.title = connection.name;
+                kernelsProvider.refresh();
                 
                 // Store successful connection for auto-reconnect and next startup
-                lastConnection = connection;
-                reconnectAttempts = 0;
+                session.connection = await tokenStore.storeToken(connection, token);
+                session.connected = true;
+                session.reconnectAttempts = 0;
                 
                 // Save last connection for auto-connect on startup
                 const config = vscode.workspace.getConfiguration('jupyterFileExplorer');
-                await config.update('lastConnection', connection, vscode.ConfigurationTarget.Global);
+                await config.update('lastConnection', session.connection, vscode.ConfigurationTarget.Global);
                 
                 // Clear any existing reconnect timer
-                if (reconnectTimer) {
-                    clearTimeout(reconnectTimer);
-                    reconnectTimer = undefined;
+                if (session.reconnectTimer) {
+                    clearTimeout(session.reconnectTimer);
+                    session.reconnectTimer = undefined;
                 }
             } else {
                 throw new Error('Failed to create Axios instance.');
             }
         } catch (error) {
-            vscode.commands.executeCommand('setContext', 'jupyterFileExplorer.connected', false);
+            updateConnectedContext();
+            if (error instanceof vscode.CancellationError) {
+                vscode.window.showInformationMessage(`Connection to ${connection.name} cancelled.`);
+                closeConnection(connection.name);
+                return;
+            }
             const errorMessage = `Failed to connect to Jupyter Server: ${error}`;
             console.error(errorMessage);
             
@@ -97,44 +314,256 @@ export function activate(context: vscode.ExtensionContext) {
             const autoReconnect = config.get<boolean>('autoReconnect', true);
             const maxAttempts = config.get<number>('maxReconnectAttempts', 3);
             
-            if (autoReconnect && lastConnection && reconnectAttempts < maxAttempts) {
-                reconnectAttempts++;
+            if (autoReconnect && session.connected && session.reconnectAttempts < maxAttempts) {
+                session.reconnectAttempts++;
                 // Exponential backoff: 5s, 10s, 20s for attempts 1, 2, 3
                 const baseInterval = config.get<number>('reconnectInterval', 5000);
-                const backoffInterval = baseInterval * Math.pow(2, reconnectAttempts - 1);
+                const backoffInterval = baseInterval * Math.pow(2, session.reconnectAttempts - 1);
                 
+                connectionManager.setStatus(connection.name, 'reconnecting');
                 vscode.window.showWarningMessage(
-                    `Connection lost. Attempting to reconnect in ${backoffInterval/1000}s (${reconnectAttempts}/${maxAttempts})...`
+                    `Connection to ${connection.name} lost. Attempting to reconnect in ${backoffInterval/1000}s (${session.reconnectAttempts}/${maxAttempts})...`
                 );
                 
-                reconnectTimer = setTimeout(() => {
-                    connectToJupyter(lastConnection!);
+                session.reconnectTimer = setTimeout(() => {
+                    session.reconnectTimer = undefined;
+                    if (sessions.get(connection.name) === session) {
+                        connectToJupyter(session.connection);
+                    }
                 }, backoffInterval);
             } else {
                 vscode.window.showErrorMessage(errorMessage);
-                if (autoReconnect && reconnectAttempts >= maxAttempts) {
-                    vscode.window.showErrorMessage(`Auto-reconnect failed after ${maxAttempts} attempts.`);
-                    reconnectAttempts = 0;
+                if (autoReconnect && session.reconnectAttempts >= maxAttempts) {
+                    vscode.window.showErrorMessage(`Auto-reconnect to ${connection.name} failed after ${maxAttempts} attempts.`);
+                }
+                session.reconnectAttempts = 0;
+                if (session.connected) {
+                    // Keep the node so the connection can be retried or closed from the tree
+                    connectionManager.setStatus(connection.name, 'disconnected');
+                } else {
+                    closeConnection(connection.name);
                 }
             }
         }
     };
 
-    const disconnectFromJupyter = () => {
-        fileExplorerProvider.disconnect();
-        vscode.commands.executeCommand('setContext', 'jupyterFileExplorer.connected', false);
-        vscode.window.showInformationMessage('Disconnected from Jupyter Server.');
-        treeView.title = 'Files';
-        
-        // Clear reconnect state
-        lastConnection = undefined;
-        reconnectAttempts = 0;
-        if (reconnectTimer) {
-            clearTimeout(reconnectTimer);
-            reconnectTimer = undefined;
+    // Drops a connection's tree node and its reconnect state
+    const closeConnection = (connectionName: string) => {
+        const session = sessions.get(connectionName);
+        if (session?.reconnectTimer) {
+            clearTimeout(session.reconnectTimer);
+        }
+        sessions.delete(connectionName);
+        connectionManager.remove(connectionName);
+        updateConnectedContext();
+        kernelsProvider.refresh();
+    };
+
+    const disconnectFromJupyter = async (item?: ExplorerNode) => {
+        let connectionName = item ? providerFor(item).getConnectionName() : undefined;
+        if (!connectionName) {
+            const names = connectionManager.getConnectionNames();
+            if (names.length === 0) {
+                vscode.window.showInformationMessage('Not connected to any Jupyter Server.');
+                return;
+            }
+            connectionName = names.length === 1 ? names[0] : await vscode.window.showQuickPick(names, {
+                placeHolder: 'Select the connection to close'
+            });
+            if (!connectionName) {
+                return;
+            }
+        }
+
+        closeConnection(connectionName);
+        vscode.window.showInformationMessage(`Disconnected from ${connectionName}.`);
+    };
+
+    // Lets the user pick, create or delete a named server of a hub connection
+    const pickHubServer = async (connection: Connection): Promise<Connection | undefined> => {
+        const token = await getConnectionToken(connection);
+        if (!token) {
+            return undefined;
+        }
+        const hubClient = new HubClient(connection.hubUrl!, connection.username!, token);
+
+        while (true) {
+            let servers;
+            try {
+                servers = await hubClient.listServers();
+            } catch (error) {
+                vscode.window.showErrorMessage(`Failed to list JupyterHub servers: ${error}`);
+                return undefined;
+            }
+
+            const describeState = (server: { ready: boolean; pending: string | null }) =>
+                server.ready ? 'running' : server.pending === 'spawn' ? 'starting' : server.pending === 'stop' ? 'stopping' : 'stopped';
+
+            const items = [
+                ...servers.map(server => ({
+                    label: `$(server) ${server.name || 'Default server'}`,
+                    description: describeState(server),
+                    detail: server.last_activity ? `Last activity: ${new Date(server.last_activity).toLocaleString()}` : undefined,
+                    action: 'connect',
+                    serverName: server.name
+                })),
+                { label: '$(add) Create Named Server...', description: '', detail: undefined, action: 'create', serverName: '' },
+                { label: '$(trash) Delete Named Server...', description: '', detail: undefined, action: 'delete', serverName: '' }
+            ];
+
+            const picked = await vscode.window.showQuickPick(items, {
+                placeHolder: `Select a server of ${connection.username} on ${connection.name}`
+            });
+            if (!picked) {
+                return undefined;
+            }
+
+            if (picked.action === 'connect') {
+                return { ...connection, serverName: picked.serverName };
+            }
+
+            if (picked.action === 'create') {
+                const serverName = await vscode.window.showInputBox({
+                    prompt: 'Enter a name for the new server',
+                    ignoreFocusOut: true,
+                    validateInput: value => /^[\w.~-]+$/.test(value) ? undefined : 'Use letters, digits, ".", "-", "_" or "~" only'
+                });
+                if (serverName) {
+                    return { ...connection, serverName };
+                }
+                continue;
+            }
+
+            const namedServers = servers.filter(server => server.name);
+            if (namedServers.length === 0) {
+                vscode.window.showInformationMessage('There are no named servers to delete.');
+                continue;
+            }
+            const toDelete = await vscode.window.showQuickPick(namedServers.map(server => server.name), {
+                placeHolder: 'Select a named server to delete'
+            });
+            if (!toDelete) {
+                continue;
+            }
+            const confirm = await vscode.window.showWarningMessage(
+                `Delete the server '${toDelete}'? It will be stopped and removed from JupyterHub.`,
+                { modal: true },
+                'Delete'
+            );
+            if (confirm === 'Delete') {
+                if (sessions.get(connection.name)?.connection.serverName === toDelete) {
+                    closeConnection(connection.name);
+                }
+                try {
+                    await vscode.window.withProgress({
+                        location: vscode.ProgressLocation.Notification,
+                        title: `Deleting server '${toDelete}'...`
+                    }, () => hubClient.deleteServer(toDelete));
+                } catch (error) {
+                    vscode.window.showErrorMessage(`Failed to delete server '${toDelete}': ${error}`);
+                }
+            }
+        }
+    };
+
+    const activeConnection = (): Connection | undefined => {
+        const name = connectionManager.getActiveName();
+        return name ? sessions.get(name)?.connection : undefined;
+    };
+
+    const selectAndConnect = async (connection: Connection) => {
+        if (connection.hubUrl && connection.username && connection.serverName === undefined) {
+            const picked = await pickHubServer(connection);
+            if (picked) {
+                await connectToJupyter(picked);
+            }
+            return;
         }
+        await connectToJupyter(connection);
     };
 
+    // Called when a server rejects the current token; failed requests are replayed with the new one
+    const refreshConnectionToken = async (connectionName: string): Promise<string | undefined> => {
+        const session = sessions.get(connectionName);
+        if (!session) {
+            return undefined;
+        }
+        const connection = session.connection;
+
+        let token: string | undefined;
+        if (connection.tokenCommand) {
+            try {
+                token = await runTokenCommand(connection.tokenCommand);
+            } catch (error) {
+                vscode.window.showErrorMessage(`Token command for ${connection.name} failed: ${error}`);
+            }
+        }
+
+        if (!token) {
+            const isHub = !!connection.hubUrl && !!connection.username;
+            const actions = isHub ? ['Sign In Again', 'Enter New Token'] : ['Enter New Token'];
+            // Modal, because every request on this connection waits for the answer
+            const result = await vscode.window.showWarningMessage(
+                `${connection.name} rejected your token. It may have expired.`,
+                { modal: true },
+                ...actions
+            );
+
+            if (result === 'Sign In Again') {
+                try {
+                    token = await hubLogin.login(connection.hubUrl!, connection.oauthClientId);
+                } catch (error) {
+                    vscode.window.showErrorMessage(`Failed to sign in to ${connection.name}: ${error}`);
+                }
+            } else if (result === 'Enter New Token') {
+                token = await vscode.window.showInputBox({
+                    prompt: `Enter a new Jupyter Token for ${connection.name}`,
+                    password: true,
+                    ignoreFocusOut: true
+                });
+            }
+        }
+
+        if (!token) {
+            return undefined;
+        }
+
+        session.connection = await saveConnectionToken(connection, token);
+        const config = vscode.workspace.getConfiguration('jupyterFileExplorer');
+        await config.update('lastConnection', session.connection, vscode.ConfigurationTarget.Global);
+        return token;
+    };
+
+    // Tokens that are still rejected after the prompt above (or when it was dismissed) get a
+    // second chance on hub connections: signing in again reconnects with the new token
+    const authPromptOpen = new Set<string>();
+    connectionManager.onAuthenticationFailed(async connectionName => {
+        const connection = sessions.get(connectionName)?.connection;
+        if (authPromptOpen.has(connectionName) || !connection?.hubUrl || !connection.username) {
+            return;
+        }
+        // Don't ask again right after the user said no to the re-authentication prompt
+        if (connectionManager.get(connectionName)?.authenticationDeclined) {
+            return;
+        }
+
+        authPromptOpen.add(connectionName);
+        try {
+            const result = await vscode.window.showWarningMessage(
+                `${connection.name} rejected your token. It may have expired.`,
+                'Sign In Again'
+            );
+            if (result === 'Sign In Again') {
+                const updated = await signInToHub(connection);
+                if (updated) {
+                    await connectToJupyter(updated);
+                }
+            }
+        } finally {
+            authPromptOpen.delete(connectionName);
+        }
+    });
+
     // Register all commands in a more efficient way
     const commands = [
         { id: 'jupyterFileExplorer.connectJupyter', handler: async () => {
@@ -154,7 +583,7 @@ export function activate(context: vscode.ExtensionContext) {
             if (selected) {
                 const connection = connections.find(c => c.name === selected);
                 if (connection) {
-                    await connectToJupyter(connection);
+                    await selectAndConnect(connection);
                 }
             }
         }},
@@ -162,23 +591,87 @@ export function activate(context: vscode.ExtensionContext) {
             const name = await vscode.window.showInputBox({ prompt: 'Enter a name for this connection' });
             if (!name) return;
 
-            const url = await vscode.window.showInputBox({ prompt: 'Enter Jupyter Server URL', ignoreFocusOut: true });
+            const serverType = await vscode.window.showQuickPick(['Jupyter Server', 'JupyterHub'], {
+                placeHolder: 'What kind of server is this?'
+            });
+            if (!serverType) return;
+            const isHub = serverType === 'JupyterHub';
+
+            const url = await vscode.window.showInputBox({ prompt: isHub ? 'Enter JupyterHub URL' : 'Enter Jupyter Server URL', ignoreFocusOut: true });
             if (!url) return;
 
-            const token = await vscode.window.showInputBox({ prompt: 'Enter Jupyter Token', password: true, ignoreFocusOut: true });
-            if (!token) return;
+            let username: string | undefined;
+            let signIn = false;
+            if (isHub) {
+                username = await vscode.window.showInputBox({ prompt: 'Enter your JupyterHub username', ignoreFocusOut: true });
+                if (!username) return;
+
+                const authMethod = await vscode.window.showQuickPick(['Sign in to JupyterHub', 'Paste an API token'], {
+                    placeHolder: 'How do you want to authenticate?'
+                });
+                if (!authMethod) return;
+                signIn = authMethod === 'Sign in to JupyterHub';
+            }
+
+            let token: string | undefined;
+            if (!signIn) {
+                token = await vscode.window.showInputBox({ prompt: 'Enter Jupyter Token', password: true, ignoreFocusOut: true });
+                if (!token) return;
+            }
 
-            const remotePath = await vscode.window.showInputBox({ prompt: 'Enter Remote Path', value: '/', ignoreFocusOut: true });
+            const remotePath = await vscode.window.showInputBox({
+                prompt: 'Enter Remote Path',
+                value: username ? `/user/${username}/` : '/',
+                ignoreFocusOut: true
+            });
 
-            const newConnection: Connection = { name, url, token, remotePath: remotePath || '/' };
+            const newConnection: Connection = { name, url, remotePath: remotePath || '/' };
+            if (isHub) {
+                newConnection.hubUrl = url;
+                newConnection.username = username;
+            }
 
             const config = vscode.workspace.getConfiguration('jupyterFileExplorer');
             const connections = config.get<Connection[]>('connections') || [];
-            connections.push(newConnection);
+            const savedConnection = token ? await tokenStore.storeToken(newConnection, token) : { ...newConnection, tokenRef: TokenStore.refFor(name) };
+            connections.push(savedConnection);
             await config.update('connections', connections, vscode.ConfigurationTarget.Global);
 
+            if (signIn) {
+                const signedIn = await signInToHub(savedConnection);
+                if (signedIn) {
+                    await selectAndConnect(signedIn);
+                    return;
+                }
+                vscode.window.showInformationMessage(`Connection '${name}' saved. Run "JHE: Sign In to JupyterHub" to finish signing in.`);
+                return;
+            }
+
             vscode.window.showInformationMessage(`Connection '${name}' saved.`);
         }},
+        { id: 'jupyterFileExplorer.loginToHub', handler: async () => {
+            const config = vscode.workspace.getConfiguration('jupyterFileExplorer');
+            const hubConnections = (config.get<Connection[]>('connections') || []).filter(c => c.hubUrl && c.username);
+
+            const active = activeConnection();
+            let connection = active?.hubUrl && active.username ? active : undefined;
+            if (!connection) {
+                if (hubConnections.length === 0) {
+                    vscode.window.showInformationMessage('No JupyterHub connections found. Add one with "JHE: Add New Jupyter Connection".');
+                    return;
+                }
+                const selected = hubConnections.length === 1 ? hubConnections[0].name : await vscode.window.showQuickPick(hubConnections.map(c => c.name), {
+                    placeHolder: 'Select the JupyterHub connection to sign in to'
+                });
+                connection = hubConnections.find(c => c.name === selected);
+                if (!connection) return;
+            }
+
+            const signedIn = await signInToHub(connection);
+            if (signedIn) {
+                await selectAndConnect(signedIn);
+            }
+        }},
         { id: 'jupyterFileExplorer.selectJupyterConnection', handler: async () => {
             const config = vscode.workspace.getConfiguration('jupyterFileExplorer');
             const connections = config.get<Connection[]>('connections') || [];
@@ -195,7 +688,7 @@ export function activate(context: vscode.ExtensionContext) {
             if (selected) {
                 const connection = connections.find(c => c.name === selected);
                 if (connection) {
-                    await connectToJupyter(connection);
+                    await selectAndConnect(connection);
                 }
             }
         }},
@@ -213,24 +706,113 @@ export function activate(context: vscode.ExtensionContext) {
             });
 
             if (selected) {
+                const removed = connections.find(c => c.name === selected);
                 const updatedConnections = connections.filter(c => c.name !== selected);
                 await config.update('connections', updatedConnections, vscode.ConfigurationTarget.Global);
+                if (removed) {
+                    await tokenStore.deleteToken(removed);
+                }
                 vscode.window.showInformationMessage(`Connection '${selected}' removed.`);
             }
         }},
         { id: 'jupyterFileExplorer.disconnectJupyter', handler: disconnectFromJupyter },
-        { id: 'jupyterFileExplorer.refreshJupyterExplorer', handler: () => fileExplorerProvider.refresh() },
-        { id: 'jupyterFileExplorer.newFile', handler: (item?: FileItem) => fileExplorerProvider.newFile(item) },
-        { id: 'jupyterFileExplorer.newFolder', handler: (item?: FileItem) => fileExplorerProvider.newFolder(item) },
-        { id: 'jupyterFileExplorer.newFileInRoot', handler: () => fileExplorerProvider.newFileInRoot() },
-        { id: 'jupyterFileExplorer.newFolderInRoot', handler: () => fileExplorerProvider.newFolderInRoot() },
-        { id: 'jupyterFileExplorer.uploadFile', handler: (item?: FileItem) => fileExplorerProvider.uploadFile(item) },
-        { id: 'jupyterFileExplorer.uploadFolder', handler: (item?: FileItem) => fileExplorerProvider.uploadFolder(item) },
-        { id: 'jupyterFileExplorer.downloadFile', handler: (item: FileItem) => fileExplorerProvider.downloadFile(item) },
-        { id: 'jupyterFileExplorer.renameFile', handler: (item: FileItem) => fileExplorerProvider.renameFile(item) },
-        { id: 'jupyterFileExplorer.deleteFile', handler: (item: FileItem) => fileExplorerProvider.deleteFile(item) },
-        { id: 'jupyterFileExplorer.forceDeleteFile', handler: (item: FileItem) => fileExplorerProvider.forceDeleteFile(item) },
-        { id: 'jupyterFileExplorer.openFile', handler: (filePath: string) => fileExplorerProvider.openFile(filePath) }
+        { id: 'jupyterFileExplorer.stopHubServer', handler: async () => {
+            const config = vscode.workspace.getConfiguration('jupyterFileExplorer');
+            const hubConnections = (config.get<Connection[]>('connections') || []).filter(c => c.hubUrl && c.username);
+
+            const active = activeConnection();
+            let connection = active?.hubUrl && active.username ? active : undefined;
+            if (!connection) {
+                if (hubConnections.length === 0) {
+                    vscode.window.showInformationMessage('No JupyterHub connections found.');
+                    return;
+                }
+                const selected = await vscode.window.showQuickPick(hubConnections.map(c => c.name), {
+                    placeHolder: 'Select the JupyterHub connection whose server should be stopped'
+                });
+                connection = hubConnections.find(c => c.name === selected);
+                if (!connection) return;
+            }
+
+            const result = await vscode.window.showWarningMessage(
+                `Stop your server on ${connection.name}? Running kernels and terminals will be shut down.`,
+                { modal: true },
+                'Stop Server'
+            );
+            if (result !== 'Stop Server') return;
+
+            if (sessions.has(connection.name)) {
+                closeConnection(connection.name);
+            }
+
+            try {
+                const token = await getConnectionToken(connection);
+                if (!token) return;
+                const hubClient = new HubClient(connection.hubUrl!, connection.username!, token);
+                await vscode.window.withProgress({
+                    location: vscode.ProgressLocation.Notification,
+                    title: `Stopping your server on ${connection.name}...`
+                }, () => hubClient.stopServer(connection!.serverName || ''));
+                vscode.window.showInformationMessage(`Server on ${connection.name} stopped.`);
+            } catch (error) {
+                vscode.window.showErrorMessage(`Failed to stop server: ${error}`);
+            }
+        }},
+        { id: 'jupyterFileExplorer.refreshJupyterExplorer', handler: (item?: ExplorerNode) => {
+            if (item) {
+                providerFor(item).refresh();
+            } else {
+                connectionManager.getProviders().forEach(provider => provider.refresh());
+            }
+        }},
+        { id: 'jupyterFileExplorer.newFile', handler: (item?: ExplorerNode) => providerFor(item).newFile(fileItem(item)) },
+        { id: 'jupyterFileExplorer.newFolder', handler: (item?: ExplorerNode) => providerFor(item).newFolder(fileItem(item)) },
+        { id: 'jupyterFileExplorer.newFileInRoot', handler: () => providerFor().newFileInRoot() },
+        { id: 'jupyterFileExplorer.newFolderInRoot', handler: () => providerFor().newFolderInRoot() },
+        { id: 'jupyterFileExplorer.uploadFile', handler: (item?: ExplorerNode) => providerFor(item).uploadFile(fileItem(item)) },
+        { id: 'jupyterFileExplorer.uploadFolder', handler: (item?: ExplorerNode) => providerFor(item).uploadFolder(fileItem(item)) },
+        { id: 'jupyterFileExplorer.downloadFile', handler: (item?: FileItem, items?: ExplorerNode[]) => withSelection(item, items, (provider, selected) => provider.downloadItems(selected)) },
+        { id: 'jupyterFileExplorer.downloadFolder', handler: (item?: FileItem, items?: ExplorerNode[]) => withSelection(item, items, (provider, selected) => provider.downloadItems(selected)) },
+        { id: 'jupyterFileExplorer.renameFile', handler: (item: FileItem) => providerFor(item).renameFile(item) },
+        { id: 'jupyterFileExplorer.deleteFile', handler: (item?: FileItem, items?: ExplorerNode[]) => withSelection(item, items, (provider, selected) => provider.deleteFiles(selected)) },
+        { id: 'jupyterFileExplorer.forceDeleteFile', handler: (item?: FileItem, items?: ExplorerNode[]) => withSelection(item, items, (provider, selected) => provider.forceDeleteFiles(selected)) },
+        { id: 'jupyterFileExplorer.copyFile', handler: (item?: FileItem, items?: ExplorerNode[]) => withSelection(item, items, (provider, selected) => provider.copyFiles(selected)) },
+        { id: 'jupyterFileExplorer.cutFile', handler: (item?: FileItem, items?: ExplorerNode[]) => withSelection(item, items, (provider, selected) => provider.cutFiles(selected)) },
+        { id: 'jupyterFileExplorer.pasteFile', handler: (item?: ExplorerNode) => {
+            const target = item || treeView.selection[0];
+            providerFor(target).pasteFile(fileItem(target));
+        }},
+        { id: 'jupyterFileExplorer.duplicateFile', handler: (item: FileItem) => providerFor(item).duplicateFile(item) },
+        { id: 'jupyterFileExplorer.undo', handler: () => connectionManager.undo() },
+        { id: 'jupyterTrash.refresh', handler: () => trashProvider.refresh() },
+        { id: 'jupyterTrash.restore', handler: (item: TrashItem) => trashProvider.restore(item) },
+        { id: 'jupyterTrash.deletePermanently', handler: (item: TrashItem) => trashProvider.deletePermanently(item) },
+        { id: 'jupyterTrash.empty', handler: () => trashProvider.empty() },
+        { id: 'jupyterFileExplorer.openInWorkspace', handler: (item?: ExplorerNode) => providerFor(item).openInWorkspace(fileItem(item)) },
+        { id: 'jupyterFileExplorer.createCheckpoint', handler: (item: FileItem) => providerFor(item).createCheckpoint(item) },
+        { id: 'jupyterFileExplorer.showCheckpoints', handler: (item: FileItem) => providerFor(item).showCheckpoints(item) },
+        { id: 'jupyterFileExplorer.restoreCheckpoint', handler: (item: FileItem) => providerFor(item).restoreCheckpoint(item) },
+        { id: 'jupyterFileExplorer.deleteCheckpoint', handler: (item: FileItem) => providerFor(item).deleteCheckpoint(item) },
+        { id: 'jupyterFileExplorer.compareWithCheckpoint', handler: (item: FileItem) => providerFor(item).compareWithCheckpoint(item) },
+        { id: 'jupyterKernels.refresh', handler: () => kernelsProvider.refresh() },
+        { id: 'jupyterKernels.interruptKernel', handler: (item: KernelItem) => kernelsProvider.interruptKernel(item) },
+        { id: 'jupyterKernels.restartKernel', handler: (item: KernelItem) => kernelsProvider.restartKernel(item) },
+        { id: 'jupyterKernels.shutdownKernel', handler: (item: KernelItem) => kernelsProvider.shutdownKernel(item) },
+        { id: 'jupyterFileExplorer.openRemoteTerminal', handler: () => remoteTerminalManager.openRemoteTerminal() },
+        { id: 'jupyterFileExplorer.runOnRemoteKernel', handler: (target?: ExplorerNode | vscode.Uri) => remoteRunner.run(target instanceof vscode.Uri ? target : fileItem(target)) },
+        { id: 'jupyterFileExplorer.stopRemoteRun', handler: () => remoteRunner.stop() },
+        { id: 'jupyterFileExplorer.exportNotebook', handler: (target?: ExplorerNode | vscode.Uri) => notebookExporter.exportNotebook(target instanceof vscode.Uri ? target : fileItem(target)) },
+        { id: 'jupyterFileExplorer.goToRemoteFile', handler: () => remoteFileIndex.goToRemoteFile() },
+        { id: 'jupyterFileExplorer.searchRemoteFiles', handler: () => remoteSearchProvider.search() },
+        { id: 'jupyterSearchResults.openMatch', handler: (item: SearchMatchItem) => remoteSearchProvider.openMatch(item) },
+        { id: 'jupyterSearchResults.clear', handler: () => remoteSearchProvider.clear() },
+        { id: 'jupyterFileExplorer.addSyncMapping', handler: (item?: ExplorerNode) => syncManager.addMapping(fileItem(item)) },
+        { id: 'jupyterFileExplorer.syncNow', handler: (item?: ExplorerNode) => syncManager.syncNow(fileItem(item)) },
+        { id: 'jupyterFileExplorer.removeSyncMapping', handler: () => syncManager.removeMapping() },
+        { id: 'jupyterFileExplorer.openFile', handler: (filePath: string, connectionId?: string) => {
+            const provider = connectionId ? connectionManager.getById(connectionId) : providerFor();
+            if (provider) provider.openFile(filePath);
+        }}
     ];
 
     // Register all commands and collect disposables
@@ -239,7 +821,7 @@ export function activate(context: vscode.ExtensionContext) {
     );
 
     // Register the FileSystemProvider
-    context.subscriptions.push(vscode.workspace.registerFileSystemProvider('jupyter-remote', fileExplorerProvider, { 
+    context.subscriptions.push(vscode.workspace.registerFileSystemProvider('jupyter-remote', connectionManager, { 
         isCaseSensitive: true
     }));
 
@@ -247,6 +829,12 @@ export function activate(context: vscode.ExtensionContext) {
         ...commandDisposables
     );
     context.subscriptions.push(vscode.workspace.registerTextDocumentContentProvider('jupyter-remote', jupyterContentProvider));
+    // Read-only view of the server copy, used when comparing conflicting saves
+    context.subscriptions.push(vscode.workspace.registerTextDocumentContentProvider('jupyter-remote-server', jupyterContentProvider));
+    // Checkpoint side of "Compare with Checkpoint"
+    context.subscriptions.push(vscode.workspace.registerTextDocumentContentProvider('jupyter-remote-checkpoint', jupyterContentProvider));
+    // Lets remote notebooks open in the notebook editor when the Jupyter extension is not installed
+    context.subscriptions.push(vscode.workspace.registerNotebookSerializer(REMOTE_NOTEBOOK_TYPE, new RemoteNotebookSerializer()));
 
     // Set initial context
     vscode.commands.executeCommand('setContext', 'jupyterFileExplorer.connected', false);
@@ -255,15 +843,29 @@ export function activate(context: vscode.ExtensionContext) {
     const autoConnectOnStartup = async () => {
         const config = vscode.workspace.getConfiguration('jupyterFileExplorer');
         const autoConnect = config.get<boolean>('autoConnect', false);
+        // Remote folders in the workspace cannot be read until their connections are open
+        const remoteFolderIds = (vscode.workspace.workspaceFolders || [])
+            .filter(folder => folder.uri.scheme === 'jupyter-remote')
+            .map(folder => folder.uri.authority);
         
-        if (autoConnect) {
-            const savedLastConnection = config.get<Connection>('lastConnection');
-            
-            if (savedLastConnection && savedLastConnection.name && savedLastConnection.url && savedLastConnection.token) {
-                console.log(`Auto-connecting to ${savedLastConnection.name}...`);
-                await connectToJupyter(savedLastConnection);
+        const toConnect: Connection[] = [];
+        const savedLastConnection = config.get<Connection>('lastConnection');
+        const lastConnectionId = savedLastConnection?.name ? ConnectionManager.idFor(savedLastConnection.name) : undefined;
+        if (savedLastConnection && savedLastConnection.name && savedLastConnection.url
+            && (autoConnect || remoteFolderIds.some(id => !id || id === lastConnectionId))) {
+            toConnect.push(savedLastConnection);
+        }
+        for (const connection of config.get<Connection[]>('connections') || []) {
+            const id = ConnectionManager.idFor(connection.name);
+            if (id !== lastConnectionId && remoteFolderIds.includes(id)) {
+                toConnect.push(connection);
             }
         }
+
+        for (const connection of toConnect) {
+            console.log(`Auto-connecting to ${connection.name}...`);
+            await connectToJupyter(connection);
+        }
     };
 
     // Run auto-connect after a short delay to ensure extension is fully loaded
@@ -274,10 +876,11 @@ export function deactivate() {
     console.log('JupyterHub File Explorer: Extension deactivating...');
     
     // Clear any pending reconnect timers
-    if (reconnectTimer) {
-        clearTimeout(reconnectTimer);
-        reconnectTimer = undefined;
-    }
+    sessions.forEach(session => {
+        if (session.reconnectTimer) {
+            clearTimeout(session.reconnectTimer);
+        }
+    });
     
     // Clear health check interval
     if (healthCheckInterval) {
@@ -286,13 +889,12 @@ export function deactivate() {
     }
     
     // Perform graceful shutdown to clean up resources
-    if (fileExplorerProvider) {
-        fileExplorerProvider.gracefulShutdown();
+    if (connectionManager) {
+        connectionManager.gracefulShutdown();
     }
     
     // Reset module variables
-    reconnectAttempts = 0;
-    lastConnection = undefined;
+    sessions.clear();
     
     console.log('JupyterHub File Explorer: Extension deactivated cleanly');
 }
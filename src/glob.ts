@@ -0,0 +1,75 @@
+const globCache = new Map<string, RegExp>();
+
+function globToRegExp(pattern: string): RegExp {
+    let cached = globCache.get(pattern);
+    if (cached) {
+        return cached;
+    }
+
+    let regex = '';
+    for (let i = 0; i < pattern.length; i++) {
+        const char = pattern[i];
+        if (char === '*') {
+            if (pattern[i + 1] === '*') {
+                // '**/' matches zero or more directories, a trailing '**' matches everything
+                if (pattern[i + 2] === '/') {
+                    regex += '(?:.*/)?';
+                    i += 2;
+                } else {
+                    regex += '.*';
+                    i += 1;
+                }
+            } else {
+                regex += '[^/]*';
+            }
+        } else if (char === '?') {
+            regex += '[^/]';
+        } else if (char === '{') {
+            const close = pattern.indexOf('}', i);
+            if (close === -1) {
+                regex += '\\{';
+            } else {
+                const options = pattern.substring(i + 1, close).split(',').map(option => globToRegExp(option).source.slice(1, -1));
+                regex += `(?:${options.join('|')})`;
+                i = close;
+            }
+        } else {
+            regex += char.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+        }
+    }
+
+    cached = new RegExp(`^${regex}$`);
+    globCache.set(pattern, cached);
+    return cached;
+}
+
+/**
+ * Checks a slash-separated path (without leading slash) against a glob pattern.
+ * Supports '*', '**', '?' and '{a,b}'. Patterns without a slash match any single
+ * path segment, like .gitignore entries.
+ */
+export function matchesGlob(filePath: string, pattern: string): boolean {
+    const cleanPath = filePath.replace(/^\/+/, '');
+    const cleanPattern = pattern.replace(/^\/+/, '').replace(/\/+$/, '');
+    if (!cleanPattern) {
+        return false;
+    }
+
+    const regex = globToRegExp(cleanPattern);
+    const parts = cleanPath.split('/');
+    if (!cleanPattern.includes('/')) {
+        return parts.some(part => regex.test(part));
+    }
+
+    // A pattern matching a directory also covers everything beneath it
+    for (let i = parts.length; i > 0; i--) {
+        if (regex.test(parts.slice(0, i).join('/'))) {
+            return true;
+        }
+    }
+    return false;
+}
+
+export function matchesAnyGlob(filePath: string, patterns: readonly string[]): boolean {
+    return patterns.some(pattern => matchesGlob(filePath, pattern));
+}